@@ -0,0 +1,169 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Effect, Layer, TestClock, TestContext } from "effect";
+import {
+  type AuditEvent,
+  AuditChainBroken,
+  AuditLog,
+  JsonlAuditLog,
+  verifyAuditLog,
+} from "./audit-log.ts";
+
+// The hash-chained JSONL sink against a real file: what it writes verifies,
+// and each way of tampering with it is reported at the first broken line
+
+let dir = "";
+let path = "";
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), "audit-log-"));
+  path = join(dir, "audit.jsonl");
+});
+afterEach(() => rm(dir, { recursive: true, force: true }));
+
+const signedIn = (userId: string): AuditEvent => ({
+  _tag: "AuthSucceeded",
+  userId,
+  tenant: "acme",
+  roles: ["editor"],
+});
+
+// Record one sign-in per user, a second apart, through a log opened on `path`
+const recordAll = (...userIds: ReadonlyArray<string>) =>
+  Effect.gen(function* () {
+    const audit = yield* AuditLog;
+    for (const userId of userIds) {
+      yield* audit.record(signedIn(userId));
+      yield* TestClock.adjust("1 second");
+    }
+    return yield* audit.query();
+  }).pipe(
+    Effect.provide(
+      Layer.merge(JsonlAuditLog({ path }), TestContext.TestContext),
+    ),
+    Effect.runPromise,
+  );
+
+const verify = () => Effect.runPromise(verifyAuditLog(path));
+const broken = () => Effect.runPromise(Effect.flip(verifyAuditLog(path)));
+
+const lines = async () => (await readFile(path, "utf8")).trimEnd().split("\n");
+const rewrite = (lines: ReadonlyArray<string>) =>
+  writeFile(path, lines.map((line) => line + "\n").join(""));
+
+describe("JsonlAuditLog", () => {
+  test("appends one chained line per entry, which verifies", async () => {
+    const entries = await recordAll("alice", "bob", "carol");
+    const written = (await lines()).map((line) => JSON.parse(line));
+
+    expect(entries).toEqual([
+      { seq: 1, at: 0, event: signedIn("alice") },
+      { seq: 2, at: 1000, event: signedIn("bob") },
+      { seq: 3, at: 2000, event: signedIn("carol") },
+    ]);
+    expect(written[0].prev).toBe("0".repeat(64));
+    expect(written[1].prev).toBe(written[0].hash);
+    expect(written[2].prev).toBe(written[1].hash);
+    expect(await verify()).toBe(3);
+  });
+
+  test("reopened on an existing file, the chain carries on", async () => {
+    await recordAll("alice", "bob");
+    const entries = await recordAll("carol");
+
+    expect(entries.map((entry) => entry.seq)).toEqual([1, 2, 3]);
+    expect(entries.map((entry) => entry.event)).toEqual([
+      signedIn("alice"),
+      signedIn("bob"),
+      signedIn("carol"),
+    ]);
+    expect(await verify()).toBe(3);
+  });
+
+  test("a missing file is an empty log", async () => {
+    expect(await verify()).toBe(0);
+  });
+
+  test("won't open on a broken chain", async () => {
+    await recordAll("alice", "bob");
+    const [first, second] = await lines();
+    await rewrite([second!, first!]);
+
+    const error = await Effect.runPromise(
+      Effect.flip(
+        Effect.flatMap(AuditLog, (audit) => audit.query()).pipe(
+          Effect.provide(JsonlAuditLog({ path })),
+        ),
+      ),
+    );
+
+    expect(error).toEqual(new AuditChainBroken(1, "expected seq 1"));
+  });
+});
+
+describe("verifyAuditLog", () => {
+  const tamper = async (
+    change: (lines: Array<string>) => ReadonlyArray<string>,
+  ) => {
+    await recordAll("alice", "bob", "carol", "dave");
+    await rewrite(change(await lines()));
+    return broken();
+  };
+
+  test("an edited entry fails on its own line", async () => {
+    const error = await tamper((lines) =>
+      lines.map((line, i) =>
+        i === 1 ? line.replace(`"userId":"bob"`, `"userId":"mallory"`) : line,
+      ),
+    );
+
+    expect(error).toEqual(
+      new AuditChainBroken(2, "entry does not match its hash"),
+    );
+  });
+
+  test("an edited hash fails on its own line too", async () => {
+    const error = await tamper((lines) =>
+      lines.map((line, i) =>
+        i === 1 ? JSON.stringify({ ...JSON.parse(line), hash: "f" }) : line,
+      ),
+    );
+
+    expect(error).toEqual(
+      new AuditChainBroken(2, "entry does not match its hash"),
+    );
+  });
+
+  test("a deleted line fails where it was", async () => {
+    const error = await tamper((lines) => lines.filter((_, i) => i !== 1));
+
+    expect(error).toEqual(new AuditChainBroken(2, "expected seq 2"));
+  });
+
+  test("a deleted line renumbered fails on the broken link", async () => {
+    const error = await tamper((lines) =>
+      lines
+        .filter((_, i) => i !== 1)
+        .map((line, i) => JSON.stringify({ ...JSON.parse(line), seq: i + 1 })),
+    );
+
+    expect(error).toEqual(
+      new AuditChainBroken(2, "previous hash does not match"),
+    );
+  });
+
+  test("reordered lines fail at the first one out of place", async () => {
+    const error = await tamper(([a, b, c, d]) => [a!, c!, b!, d!]);
+
+    expect(error).toEqual(new AuditChainBroken(2, "expected seq 2"));
+  });
+
+  test("a line that isn't JSON fails on that line", async () => {
+    const error = await tamper((lines) =>
+      lines.map((line, i) => (i === 2 ? line.slice(0, 20) : line)),
+    );
+
+    expect(error).toEqual(new AuditChainBroken(3, "not JSON"));
+  });
+});
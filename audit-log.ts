@@ -0,0 +1,356 @@
+import { createHash } from "node:crypto";
+import { appendFile, readFile } from "node:fs/promises";
+import { Clock, Context, Effect, Layer } from "effect";
+import type { IsolationLevel } from "./transaction.ts";
+
+// =============================================================================
+// Audit log - who did what, recorded as structured events
+//
+// `authenticate` and the authorizers (./rbac.ts) record every sign-in and
+// every permission decision, Transaction.commit records BEGIN / COMMIT /
+// ROLLBACK, and Cosmos records every document write with a diff. All of
+// them require AuditLog, so a program can't run without somewhere to
+// send its audit trail.
+//
+// Two sinks:
+//   - InMemoryAuditLog: for tests and demos
+//   - JsonlAuditLog: one JSON entry per line, append-only. Every entry
+//     carries the hash of the one before it (a hash chain), so editing or
+//     removing a line breaks the chain - see verifyAuditLog.
+//
+// Failing to write the audit trail is a defect, not a typed error: the
+// operation being audited must not carry on as if it had been recorded.
+// =============================================================================
+
+// --- Events ---
+
+export interface AuthSucceeded {
+  readonly _tag: "AuthSucceeded";
+  readonly userId: string;
+  readonly tenant: string;
+  readonly roles: ReadonlyArray<string>;
+}
+
+export interface AuthFailed {
+  readonly _tag: "AuthFailed";
+  readonly reason: string;
+}
+
+export interface PermissionDecided {
+  readonly _tag: "PermissionGranted" | "PermissionDenied";
+  readonly userId: string;
+  readonly action: string;
+  readonly resource: string;
+  // Set for per-instance checks (authorizeOwn)
+  readonly resourceId?: string;
+  // The role whose rule decided, if any rule matched
+  readonly role?: string;
+  // Set when granted by an elevation instead of a role (./elevation.ts)
+  readonly elevationId?: number;
+  readonly explanation: string;
+}
+
+// asPlatformAdmin stepping into another tenant
+export interface CrossTenantAccess {
+  readonly _tag: "CrossTenantGranted" | "CrossTenantDenied";
+  readonly userId: string;
+  readonly fromTenant: string;
+  readonly toTenant: string;
+  // Why, as given by the caller (a ticket number...)
+  readonly reason: string;
+}
+
+// requestElevation and approveElevation (./rbac.ts)
+export interface ElevationRequested {
+  readonly _tag: "ElevationRequested";
+  readonly requestId: number;
+  readonly userId: string;
+  readonly tenant: string;
+  readonly permission: string;
+  readonly reason: string;
+  readonly ttlMillis: number;
+}
+
+export interface ElevationApproved {
+  readonly _tag: "ElevationApproved";
+  readonly requestId: number;
+  // Whose elevation it is; the approver is `approvedBy`
+  readonly userId: string;
+  readonly approvedBy: string;
+  readonly permission: string;
+  // Epoch milliseconds
+  readonly expiresAt: number;
+}
+
+export interface TransactionBegan {
+  readonly _tag: "TransactionBegan";
+  readonly transactionId: number;
+  readonly isolation: IsolationLevel;
+  readonly savepoint?: string;
+}
+
+export interface TransactionCommitted {
+  readonly _tag: "TransactionCommitted";
+  readonly transactionId: number;
+}
+
+export interface TransactionRolledBack {
+  readonly _tag: "TransactionRolledBack";
+  readonly transactionId: number;
+  readonly savepoint?: string;
+}
+
+// Field name -> value before and after the write. Only changed fields
+// are listed; a missing side means the field (or document) did not exist.
+export type DocumentDiff = Readonly<
+  Record<string, { readonly before?: unknown; readonly after?: unknown }>
+>;
+
+export interface DocumentWritten {
+  readonly _tag: "DocumentWritten";
+  readonly userId: string;
+  readonly tenant: string;
+  // The container
+  readonly resource: string;
+  readonly documentId: string;
+  readonly operation: "create" | "replace" | "upsert" | "delete";
+  readonly diff: DocumentDiff;
+  // The transaction (and savepoint) the write belongs to, so a
+  // TransactionRolledBack entry tells which writes were undone
+  readonly transactionId: number;
+  readonly savepoint?: string;
+}
+
+export type AuditEvent =
+  | AuthSucceeded
+  | AuthFailed
+  | PermissionDecided
+  | CrossTenantAccess
+  | ElevationRequested
+  | ElevationApproved
+  | TransactionBegan
+  | TransactionCommitted
+  | TransactionRolledBack
+  | DocumentWritten;
+
+export interface AuditEntry {
+  // Position in the log, from 1
+  readonly seq: number;
+  // Epoch milliseconds, from the Effect Clock
+  readonly at: number;
+  readonly event: AuditEvent;
+}
+
+export interface AuditQuery {
+  readonly userId?: string;
+  readonly resource?: string;
+  // Inclusive time range
+  readonly from?: Date;
+  readonly to?: Date;
+}
+
+// --- Errors ---
+
+export class AuditChainBroken extends Error {
+  readonly _tag = "AuditChainBroken";
+  constructor(
+    readonly line: number,
+    readonly reason: string,
+  ) {
+    super(`Audit log chain broken at line ${line}: ${reason}`);
+  }
+}
+
+// --- Service ---
+
+export class AuditLog extends Context.Tag("@app/AuditLog")<
+  AuditLog,
+  {
+    readonly record: (event: AuditEvent) => Effect.Effect<void>;
+    // Entries matching every given filter, oldest first
+    readonly query: (
+      filter?: AuditQuery,
+    ) => Effect.Effect<ReadonlyArray<AuditEntry>>;
+  }
+>() {}
+
+// --- Helpers ---
+
+// Fields that changed between two versions of a document. Cosmos metadata
+// (`_etag`, `_ts`) is left out.
+export const diffDocuments = (
+  before: Readonly<Record<string, unknown>> | undefined,
+  after: Readonly<Record<string, unknown>> | undefined,
+): DocumentDiff => {
+  const diff: Record<string, { before?: unknown; after?: unknown }> = {};
+  const fields = new Set([
+    ...Object.keys(before ?? {}),
+    ...Object.keys(after ?? {}),
+  ]);
+  for (const field of fields) {
+    if (field === "_etag" || field === "_ts") continue;
+    const was = before?.[field];
+    const is = after?.[field];
+    if (JSON.stringify(was) === JSON.stringify(is)) continue;
+    diff[field] = {
+      ...(before && field in before ? { before: was } : {}),
+      ...(after && field in after ? { after: is } : {}),
+    };
+  }
+  return diff;
+};
+
+const matches = (entry: AuditEntry, filter: AuditQuery) => {
+  const { event } = entry;
+  if (
+    filter.userId !== undefined &&
+    !("userId" in event && event.userId === filter.userId)
+  ) {
+    return false;
+  }
+  if (
+    filter.resource !== undefined &&
+    !("resource" in event && event.resource === filter.resource)
+  ) {
+    return false;
+  }
+  if (filter.from !== undefined && entry.at < filter.from.getTime()) {
+    return false;
+  }
+  if (filter.to !== undefined && entry.at > filter.to.getTime()) return false;
+  return true;
+};
+
+// =============================================================================
+// In-memory sink
+// =============================================================================
+
+export const makeInMemoryAuditLog = Effect.sync(() => {
+  const entries: Array<AuditEntry> = [];
+
+  return AuditLog.of({
+    record: (event) =>
+      Effect.gen(function* () {
+        const at = yield* Clock.currentTimeMillis;
+        entries.push({ seq: entries.length + 1, at, event });
+      }),
+    query: (filter = {}) =>
+      Effect.sync(() => entries.filter((entry) => matches(entry, filter))),
+  });
+});
+
+export const InMemoryAuditLog = Layer.effect(AuditLog, makeInMemoryAuditLog);
+
+// =============================================================================
+// Hash-chained JSONL file sink
+// =============================================================================
+
+// What is written per line: the entry, the previous line's hash, and this
+// line's hash over both.
+interface ChainedEntry extends AuditEntry {
+  readonly prev: string;
+  readonly hash: string;
+}
+
+const GENESIS = "0".repeat(64);
+
+const hashOf = (prev: string, entry: AuditEntry) =>
+  createHash("sha256")
+    .update(prev)
+    .update(JSON.stringify([entry.seq, entry.at, entry.event]))
+    .digest("hex");
+
+const readLines = (path: string) =>
+  Effect.promise(() =>
+    readFile(path, "utf8").catch((error: NodeJS.ErrnoException) => {
+      if (error.code === "ENOENT") return "";
+      throw error;
+    }),
+  ).pipe(Effect.map((text) => text.split("\n").filter((l) => l !== "")));
+
+const parseLine = (line: string, number: number) =>
+  Effect.try({
+    try: () => JSON.parse(line) as ChainedEntry,
+    catch: () => new AuditChainBroken(number, "not JSON"),
+  });
+
+// Check every line of a JSONL audit log against the chain. Succeeds with
+// the number of entries, or fails at the first line that doesn't fit.
+export const verifyAuditLog = (path: string) =>
+  Effect.gen(function* () {
+    const lines = yield* readLines(path);
+    let prev = GENESIS;
+    for (const [index, line] of lines.entries()) {
+      const number = index + 1;
+      const entry = yield* parseLine(line, number);
+      if (entry.seq !== number) {
+        return yield* Effect.fail(
+          new AuditChainBroken(number, `expected seq ${number}`),
+        );
+      }
+      if (entry.prev !== prev) {
+        return yield* Effect.fail(
+          new AuditChainBroken(number, "previous hash does not match"),
+        );
+      }
+      if (entry.hash !== hashOf(prev, entry)) {
+        return yield* Effect.fail(
+          new AuditChainBroken(number, "entry does not match its hash"),
+        );
+      }
+      prev = entry.hash;
+    }
+    return lines.length;
+  });
+
+export interface JsonlAuditLogOptions {
+  readonly path: string;
+}
+
+// Appends to `path`, continuing the chain of whatever is already there.
+// Fails to build if the existing file's chain is broken.
+export const makeJsonlAuditLog = (options: JsonlAuditLogOptions) =>
+  Effect.gen(function* () {
+    const count = yield* verifyAuditLog(options.path);
+    const existing = yield* readLines(options.path);
+    const last = existing.at(-1);
+    let { seq, hash } = last
+      ? yield* parseLine(last, count)
+      : { seq: 0, hash: GENESIS };
+    // One append at a time, so each line chains onto the one before it
+    const lock = yield* Effect.makeSemaphore(1);
+
+    return AuditLog.of({
+      record: (event) =>
+        Effect.gen(function* () {
+          const at = yield* Clock.currentTimeMillis;
+          const entry: AuditEntry = { seq: seq + 1, at, event };
+          const chained: ChainedEntry = {
+            ...entry,
+            prev: hash,
+            hash: hashOf(hash, entry),
+          };
+          yield* Effect.promise(() =>
+            appendFile(options.path, JSON.stringify(chained) + "\n"),
+          );
+          seq = chained.seq;
+          hash = chained.hash;
+        }).pipe(lock.withPermits(1)),
+      query: (filter = {}) =>
+        readLines(options.path).pipe(
+          Effect.map((lines) =>
+            lines
+              .map((line) => {
+                const { prev, hash, ...entry } = JSON.parse(
+                  line,
+                ) as ChainedEntry;
+                return entry;
+              })
+              .filter((entry) => matches(entry, filter)),
+          ),
+        ),
+    });
+  });
+
+export const JsonlAuditLog = (options: JsonlAuditLogOptions) =>
+  Layer.effect(AuditLog, makeJsonlAuditLog(options));
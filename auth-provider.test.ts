@@ -0,0 +1,254 @@
+import { describe, expect, test } from "bun:test";
+import { Effect, Layer, TestClock, TestContext } from "effect";
+import {
+  AuthProvider,
+  InMemorySessionStore,
+  InvalidClaim,
+  InvalidSignature,
+  type JwtClaims,
+  JwtAuthProvider,
+  type JwtOptions,
+  MalformedToken,
+  SessionAuthProvider,
+  SessionStore,
+  signJwt,
+  TokenExpired,
+  TokenNotYetValid,
+  UnknownSession,
+} from "./auth-provider.ts";
+
+// Every way a token is rejected, with the TestClock standing in for the time
+// of verification. It starts at the epoch, so claims are in seconds from 0.
+
+const jwt: JwtOptions = {
+  secret: "secret",
+  issuer: "https://auth.example.com",
+  audience: "api",
+};
+
+const claims: JwtClaims = {
+  sub: "user-1",
+  email: "user-1@example.com",
+  tenant: "acme",
+  roles: ["editor"],
+  iss: jwt.issuer,
+  aud: jwt.audience,
+  exp: 3600,
+};
+
+const run = <A, E>(
+  effect: Effect.Effect<A, E, AuthProvider>,
+  provider: Layer.Layer<AuthProvider> = JwtAuthProvider(jwt),
+) =>
+  effect.pipe(
+    Effect.provide(Layer.merge(provider, TestContext.TestContext)),
+    Effect.runPromise,
+  );
+
+const verify = (token: string) =>
+  Effect.flatMap(AuthProvider, (auth) => auth.verify(token));
+
+// Verify at `seconds` after the epoch, and return the error
+const rejected = (token: string, seconds = 0) =>
+  Effect.zipRight(
+    TestClock.setTime(seconds * 1000),
+    Effect.flip(verify(token)),
+  );
+
+const base64url = (value: unknown) =>
+  Buffer.from(JSON.stringify(value)).toString("base64url");
+
+describe("JwtAuthProvider", () => {
+  test("a valid token gives the identity in its claims", async () => {
+    const identity = await run(verify(signJwt(claims, jwt.secret)));
+
+    expect(identity).toEqual({
+      id: "user-1",
+      email: "user-1@example.com",
+      tenant: "acme",
+      roles: ["editor"],
+    });
+  });
+
+  test("MalformedToken for anything that isn't a well-formed JWT", async () => {
+    const [signature, header] = signJwt(claims, jwt.secret)
+      .split(".")
+      .reverse();
+    const errors = await run(
+      Effect.all([
+        rejected("not-a-jwt"),
+        rejected(`${header}.${base64url(claims)}`),
+        rejected(`bm90IGpzb24.${base64url(claims)}.${signature}`),
+        rejected(signJwt({ ...claims, sub: undefined as never }, jwt.secret)),
+        rejected(signJwt({ ...claims, roles: "admin" as never }, jwt.secret)),
+        rejected(signJwt({ ...claims, tenant: "" }, jwt.secret)),
+      ]),
+    );
+
+    for (const error of errors) expect(error).toBeInstanceOf(MalformedToken);
+    expect(errors.map((error) => (error as MalformedToken).reason)).toEqual([
+      "expected three dot-separated segments",
+      "expected three dot-separated segments",
+      "header is not a base64url JSON object",
+      `"sub" is missing`,
+      `"roles" must be an array of strings`,
+      `"tenant" is missing`,
+    ]);
+  });
+
+  test("only HS256 is accepted, whatever the signature", async () => {
+    const [, payload, signature] = signJwt(claims, jwt.secret).split(".");
+    const errors = await run(
+      Effect.all([
+        rejected(`${base64url({ alg: "none" })}.${payload}.${signature}`),
+        rejected(`${base64url({ alg: "RS256" })}.${payload}.${signature}`),
+      ]),
+    );
+
+    expect(errors).toEqual([
+      new MalformedToken("unsupported algorithm none"),
+      new MalformedToken("unsupported algorithm RS256"),
+    ]);
+  });
+
+  test("InvalidSignature for another secret or a payload changed after signing", async () => {
+    const [header, , signature] = signJwt(claims, jwt.secret).split(".");
+    const errors = await run(
+      Effect.all([
+        rejected(signJwt(claims, "another secret")),
+        rejected(
+          `${header}.${base64url({ ...claims, roles: ["admin"] })}.${signature}`,
+        ),
+        // The payload isn't read before the signature is checked
+        rejected(`${header}.${base64url({})}.${signature}`),
+        rejected(`${header}.bm90IGpzb24.${signature}`),
+      ]),
+    );
+
+    for (const error of errors) expect(error).toBeInstanceOf(InvalidSignature);
+  });
+
+  test("TokenExpired once `exp` has passed", async () => {
+    const token = signJwt(claims, jwt.secret);
+    const [atExp, after] = await run(
+      Effect.all([
+        Effect.zipRight(TestClock.setTime(3600_000), verify(token)),
+        rejected(token, 3601),
+      ]),
+    );
+
+    expect(atExp.id).toBe("user-1");
+    expect(after).toEqual(new TokenExpired(new Date(3600_000)));
+  });
+
+  test("TokenNotYetValid before `nbf`", async () => {
+    const token = signJwt({ ...claims, nbf: 60 }, jwt.secret);
+    const [before, atNbf] = await run(
+      Effect.all([
+        rejected(token, 59),
+        Effect.zipRight(TestClock.setTime(60_000), verify(token)),
+      ]),
+    );
+
+    expect(before).toEqual(new TokenNotYetValid(new Date(60_000)));
+    expect(atNbf.id).toBe("user-1");
+  });
+
+  test("clockSkew is allowed on both `exp` and `nbf`, and no more", async () => {
+    const token = signJwt({ ...claims, nbf: 60 }, jwt.secret);
+    const [early, late, tooEarly, tooLate] = await run(
+      Effect.all([
+        Effect.zipRight(TestClock.setTime(30_000), verify(token)),
+        Effect.zipRight(TestClock.setTime(3630_000), verify(token)),
+        rejected(token, 29),
+        rejected(token, 3631),
+      ]),
+      JwtAuthProvider({ ...jwt, clockSkew: "30 seconds" }),
+    );
+
+    expect([early.id, late.id]).toEqual(["user-1", "user-1"]);
+    expect(tooEarly).toBeInstanceOf(TokenNotYetValid);
+    expect(tooLate).toBeInstanceOf(TokenExpired);
+  });
+
+  test("InvalidClaim for another issuer or audience", async () => {
+    const [issuer, audience, audiences] = await run(
+      Effect.all([
+        rejected(signJwt({ ...claims, iss: "https://evil" }, jwt.secret)),
+        rejected(signJwt({ ...claims, aud: "admin-api" }, jwt.secret)),
+        verify(signJwt({ ...claims, aud: ["admin-api", "api"] }, jwt.secret)),
+      ]),
+    );
+
+    expect(issuer).toEqual(
+      new InvalidClaim("iss", `expected "https://auth.example.com"`),
+    );
+    expect(audience).toEqual(new InvalidClaim("aud", `expected "api"`));
+    // One of several audiences is enough
+    expect(audiences.id).toBe("user-1");
+  });
+});
+
+describe("SessionAuthProvider", () => {
+  const sessions = SessionAuthProvider.pipe(
+    Layer.provideMerge(InMemorySessionStore),
+  );
+  const identity = {
+    id: "user-1",
+    email: "user-1@example.com",
+    tenant: "acme",
+    roles: ["editor"],
+  };
+
+  const runSessions = <A, E>(
+    effect: Effect.Effect<A, E, AuthProvider | SessionStore>,
+  ) =>
+    effect.pipe(
+      Effect.provide(Layer.merge(sessions, TestContext.TestContext)),
+      Effect.runPromise,
+    );
+
+  test("a session token gives the identity it was created for", async () => {
+    const verified = await runSessions(
+      Effect.gen(function* () {
+        const store = yield* SessionStore;
+        return yield* verify(yield* store.create(identity, "1 hour"));
+      }),
+    );
+
+    expect(verified).toEqual(identity);
+  });
+
+  test("UnknownSession for a token never issued or revoked", async () => {
+    const errors = await runSessions(
+      Effect.gen(function* () {
+        const store = yield* SessionStore;
+        const token = yield* store.create(identity, "1 hour");
+        yield* store.revoke(token);
+        return [
+          yield* Effect.flip(verify("never-issued")),
+          yield* Effect.flip(verify(token)),
+        ];
+      }),
+    );
+
+    for (const error of errors) expect(error).toBeInstanceOf(UnknownSession);
+  });
+
+  test("an expired session fails with TokenExpired, then is gone", async () => {
+    const [expired, gone] = await runSessions(
+      Effect.gen(function* () {
+        const store = yield* SessionStore;
+        const token = yield* store.create(identity, "1 hour");
+        yield* TestClock.adjust("1 hour");
+        return [
+          yield* Effect.flip(verify(token)),
+          yield* Effect.flip(verify(token)),
+        ];
+      }),
+    );
+
+    expect(expired).toEqual(new TokenExpired(new Date(3600_000)));
+    expect(gone).toBeInstanceOf(UnknownSession);
+  });
+});
@@ -0,0 +1,311 @@
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+import { Clock, Context, Duration, Effect, Layer } from "effect";
+
+// =============================================================================
+// AuthProvider - turns a bearer token into a verified identity
+//
+// `authenticate` (./rbac.ts) reads a token and hands it to the AuthProvider
+// in context, so which kind of token is accepted is decided by the layer
+// provided at the edge:
+//
+//   - JwtAuthProvider: HS256 JWTs signed with a local secret. Checks the
+//     signature, `exp`, `nbf`, `aud` and `iss`.
+//   - SessionAuthProvider: opaque session tokens looked up in a
+//     SessionStore (InMemorySessionStore is provided).
+//
+// Each way a token can be rejected has its own error.
+// =============================================================================
+
+// Who the token says the caller is, once verified
+export interface Identity {
+  readonly id: string;
+  readonly email: string;
+  // The tenant the user signed in to; `roles` apply in that tenant only
+  readonly tenant: string;
+  readonly roles: ReadonlyArray<string>;
+}
+
+// --- Errors ---
+
+export class MalformedToken extends Error {
+  readonly _tag = "MalformedToken";
+  constructor(readonly reason: string) {
+    super(`Malformed token: ${reason}`);
+  }
+}
+
+export class InvalidSignature extends Error {
+  readonly _tag = "InvalidSignature";
+  constructor() {
+    super("Token signature does not match");
+  }
+}
+
+export class TokenExpired extends Error {
+  readonly _tag = "TokenExpired";
+  constructor(readonly expiredAt: Date) {
+    super(`Token expired at ${expiredAt.toISOString()}`);
+  }
+}
+
+export class TokenNotYetValid extends Error {
+  readonly _tag = "TokenNotYetValid";
+  constructor(readonly notBefore: Date) {
+    super(`Token is not valid before ${notBefore.toISOString()}`);
+  }
+}
+
+export class InvalidClaim extends Error {
+  readonly _tag = "InvalidClaim";
+  constructor(
+    readonly claim: string,
+    readonly reason: string,
+  ) {
+    super(`Invalid "${claim}" claim: ${reason}`);
+  }
+}
+
+export class UnknownSession extends Error {
+  readonly _tag = "UnknownSession";
+  constructor() {
+    super("Session does not exist or was revoked");
+  }
+}
+
+export type TokenError =
+  | MalformedToken
+  | InvalidSignature
+  | TokenExpired
+  | TokenNotYetValid
+  | InvalidClaim
+  | UnknownSession;
+
+// --- Service ---
+
+export class AuthProvider extends Context.Tag("@app/AuthProvider")<
+  AuthProvider,
+  {
+    readonly verify: (token: string) => Effect.Effect<Identity, TokenError>;
+  }
+>() {}
+
+// =============================================================================
+// JWT (HS256)
+// =============================================================================
+
+export interface JwtOptions {
+  readonly secret: string;
+  readonly issuer: string;
+  readonly audience: string;
+  // Tolerance for clock drift when checking `exp` and `nbf`
+  readonly clockSkew?: Duration.DurationInput;
+}
+
+// Claims we issue and accept. `roles`, `email` and `tenant` are our own
+// claims.
+export interface JwtClaims {
+  readonly sub: string;
+  readonly email: string;
+  readonly tenant: string;
+  readonly roles: ReadonlyArray<string>;
+  readonly iss: string;
+  readonly aud: string | ReadonlyArray<string>;
+  // Seconds since the epoch
+  readonly exp: number;
+  readonly nbf?: number;
+  readonly iat?: number;
+}
+
+const base64url = (input: string | Buffer) =>
+  Buffer.from(input).toString("base64url");
+
+const hmac = (secret: string, data: string) =>
+  createHmac("sha256", secret).update(data).digest();
+
+// Sign claims as an HS256 JWT - used to issue tokens locally and in tests
+export const signJwt = (claims: JwtClaims, secret: string) => {
+  const header = base64url(JSON.stringify({ alg: "HS256", typ: "JWT" }));
+  const payload = base64url(JSON.stringify(claims));
+  const signature = base64url(hmac(secret, `${header}.${payload}`));
+  return `${header}.${payload}.${signature}`;
+};
+
+const decodeSegment = (segment: string, name: string) =>
+  Effect.try({
+    try: () => {
+      const value: unknown = JSON.parse(
+        Buffer.from(segment, "base64url").toString("utf8"),
+      );
+      if (typeof value !== "object" || value === null) throw new Error();
+      return value as Record<string, unknown>;
+    },
+    catch: () => new MalformedToken(`${name} is not a base64url JSON object`),
+  });
+
+const readClaims = (payload: Record<string, unknown>) => {
+  const { sub, email, tenant, roles, exp, nbf, iss, aud } = payload;
+  if (typeof sub !== "string") return new MalformedToken(`"sub" is missing`);
+  if (typeof email !== "string") {
+    return new MalformedToken(`"email" is missing`);
+  }
+  if (typeof tenant !== "string" || tenant === "") {
+    return new MalformedToken(`"tenant" is missing`);
+  }
+  if (!Array.isArray(roles) || !roles.every((r) => typeof r === "string")) {
+    return new MalformedToken(`"roles" must be an array of strings`);
+  }
+  if (typeof exp !== "number") return new MalformedToken(`"exp" is missing`);
+  if (nbf !== undefined && typeof nbf !== "number") {
+    return new MalformedToken(`"nbf" must be a number`);
+  }
+  return {
+    sub,
+    email,
+    tenant,
+    roles: roles as ReadonlyArray<string>,
+    exp,
+    nbf,
+    iss,
+    aud,
+  };
+};
+
+export const makeJwtAuthProvider = (options: JwtOptions) => {
+  const skew = Duration.toSeconds(options.clockSkew ?? 0);
+
+  return AuthProvider.of({
+    verify: (token) =>
+      Effect.gen(function* () {
+        const parts = token.split(".");
+        const [header, payload, signature] = parts;
+        if (parts.length !== 3 || !header || !payload || !signature) {
+          return yield* Effect.fail(
+            new MalformedToken("expected three dot-separated segments"),
+          );
+        }
+
+        const { alg } = yield* decodeSegment(header, "header");
+        if (alg !== "HS256") {
+          return yield* Effect.fail(
+            new MalformedToken(`unsupported algorithm ${String(alg)}`),
+          );
+        }
+
+        // Nothing in the payload is looked at before the signature matches
+        const expected = hmac(options.secret, `${header}.${payload}`);
+        const actual = Buffer.from(signature, "base64url");
+        if (
+          actual.length !== expected.length ||
+          !timingSafeEqual(actual, expected)
+        ) {
+          return yield* Effect.fail(new InvalidSignature());
+        }
+
+        const claims = readClaims(yield* decodeSegment(payload, "payload"));
+        if (claims instanceof MalformedToken) {
+          return yield* Effect.fail(claims);
+        }
+
+        const now = (yield* Clock.currentTimeMillis) / 1000;
+        if (now > claims.exp + skew) {
+          return yield* Effect.fail(
+            new TokenExpired(new Date(claims.exp * 1000)),
+          );
+        }
+        if (claims.nbf !== undefined && now < claims.nbf - skew) {
+          return yield* Effect.fail(
+            new TokenNotYetValid(new Date(claims.nbf * 1000)),
+          );
+        }
+
+        if (claims.iss !== options.issuer) {
+          return yield* Effect.fail(
+            new InvalidClaim("iss", `expected "${options.issuer}"`),
+          );
+        }
+        const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+        if (!audiences.includes(options.audience)) {
+          return yield* Effect.fail(
+            new InvalidClaim("aud", `expected "${options.audience}"`),
+          );
+        }
+
+        return {
+          id: claims.sub,
+          email: claims.email,
+          tenant: claims.tenant,
+          roles: claims.roles,
+        };
+      }),
+  });
+};
+
+export const JwtAuthProvider = (options: JwtOptions) =>
+  Layer.succeed(AuthProvider, makeJwtAuthProvider(options));
+
+// =============================================================================
+// Opaque sessions
+// =============================================================================
+
+export class SessionStore extends Context.Tag("@app/SessionStore")<
+  SessionStore,
+  {
+    // Start a session and return its opaque token
+    readonly create: (
+      identity: Identity,
+      ttl: Duration.DurationInput,
+    ) => Effect.Effect<string>;
+    readonly revoke: (token: string) => Effect.Effect<void>;
+    readonly lookup: (
+      token: string,
+    ) => Effect.Effect<
+      { readonly identity: Identity; readonly expiresAt: number } | undefined
+    >;
+  }
+>() {}
+
+export const InMemorySessionStore = Layer.sync(SessionStore, () => {
+  const sessions = new Map<
+    string,
+    { readonly identity: Identity; readonly expiresAt: number }
+  >();
+
+  return SessionStore.of({
+    create: (identity, ttl) =>
+      Effect.gen(function* () {
+        const now = yield* Clock.currentTimeMillis;
+        const token = randomBytes(24).toString("base64url");
+        sessions.set(token, {
+          identity,
+          expiresAt: now + Duration.toMillis(ttl),
+        });
+        return token;
+      }),
+    revoke: (token) => Effect.sync(() => void sessions.delete(token)),
+    lookup: (token) => Effect.sync(() => sessions.get(token)),
+  });
+});
+
+export const SessionAuthProvider = Layer.effect(
+  AuthProvider,
+  Effect.gen(function* () {
+    const store = yield* SessionStore;
+
+    return AuthProvider.of({
+      verify: (token) =>
+        Effect.gen(function* () {
+          const session = yield* store.lookup(token);
+          if (!session) return yield* Effect.fail(new UnknownSession());
+
+          const now = yield* Clock.currentTimeMillis;
+          if (now >= session.expiresAt) {
+            yield* store.revoke(token);
+            return yield* Effect.fail(
+              new TokenExpired(new Date(session.expiresAt)),
+            );
+          }
+          return session.identity;
+        }),
+    });
+  }),
+);
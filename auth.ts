@@ -0,0 +1,26 @@
+import { Context } from "effect";
+
+// =============================================================================
+// Authentication marker
+//
+// `authenticate` (./rbac.ts) verifies the caller's token with the
+// AuthProvider (./auth-provider.ts) and provides CurrentUser for the
+// authorizers. LoggedInUser is derived from that same CurrentUser and
+// provided alongside it, for code that only needs to know who is calling
+// (Cosmos, the rate limiter). What the user may do is no longer a separate
+// marker: Cosmos methods require `Requires<"read" | "write", container>`,
+// granted by `authorize` from the user's roles.
+// =============================================================================
+
+// LoggedInUser is a semantic marker that ALSO carries data (the user)
+// If your function requires LoggedInUser, auth has been verified
+export class LoggedInUser extends Context.Tag("@app/LoggedInUser")<
+  LoggedInUser,
+  {
+    readonly id: string;
+    readonly email: string;
+    // The tenant the user signed in to
+    readonly tenant: string;
+    readonly roles: ReadonlyArray<string>;
+  }
+>() {}
@@ -0,0 +1,79 @@
+import { beforeAll, describe, expect, test } from "bun:test";
+import { checkMarkers } from "./check-markers.ts";
+
+// One fixture per way around the branded markers, each of which must be
+// found. ./rbac.test.ts runs the same fixtures to check they die at runtime.
+
+const fixture = (name: string) => `fixtures/markers/${name}.ts`;
+
+// Every fixture is scanned in one program, which takes a few seconds to build
+let findings: ReturnType<typeof checkMarkers> = [];
+beforeAll(() => {
+  findings = checkMarkers(
+    [
+      "update-service",
+      "aliased-import",
+      "namespace-import",
+      "destructured",
+      "local-alias",
+      "re-export",
+      "re-exported",
+      "copied-grant",
+      "read-users",
+    ].map(fixture),
+  );
+}, 60_000);
+
+const findingsIn = (name: string) =>
+  findings.filter((finding) => finding.file === fixture(name));
+
+describe("checkMarkers", () => {
+  test.each([
+    {
+      name: "update-service",
+      expected: [{ line: 7, call: "Effect.updateService", tag: "Tenant" }],
+    },
+    {
+      name: "aliased-import",
+      expected: [{ line: 7, call: "E.provideService", tag: "Tenant" }],
+    },
+    {
+      name: "namespace-import",
+      expected: [{ line: 7, call: "Provide.provideService", tag: "Tenant" }],
+    },
+    {
+      name: "destructured",
+      expected: [{ line: 8, call: "give", tag: "Tenant" }],
+    },
+    {
+      name: "local-alias",
+      expected: [{ line: 9, call: "give", tag: "Tenant" }],
+    },
+    {
+      name: "re-exported",
+      expected: [{ line: 6, call: "give", tag: "Tenant" }],
+    },
+    {
+      name: "copied-grant",
+      expected: [
+        { line: 7, call: "Context.GenericTag", tag: `"@rbac/read:users"` },
+        { line: 10, call: "Context.GenericTag", tag: `"@rbac/write:users"` },
+        {
+          line: 19,
+          call: "Effect.provideService",
+          tag: `Requires<"write", "users">`,
+        },
+      ],
+    },
+  ])("finds $name", ({ name, expected }) => {
+    expect(findingsIn(name)).toEqual(
+      expected.map((finding) => ({ file: fixture(name), ...finding })),
+    );
+  });
+
+  test("finds nothing where the markers are only read", () => {
+    expect([...findingsIn("read-users"), ...findingsIn("re-export")]).toEqual(
+      [],
+    );
+  });
+});
@@ -0,0 +1,229 @@
+import * as path from "node:path";
+import ts from "typescript";
+import { loadProgram } from "./rbac-manifest.ts";
+
+// =============================================================================
+// Marker check - nobody provides Transaction, Tenant or a permission except
+// the wrappers that are meant to
+//
+// The marker services are branded (see ./transaction.ts and ./rbac.ts), so
+// providing a hand-made one already fails to type-check. A cast gets around
+// that, and so does a second tag declared with the same identifier or
+// Effect.updateService on a real one. The permissions and Tenant are also
+// checked at runtime (`minted` in ./rbac.ts); this catches those bypasses
+// before they run, by scanning each file with the TypeScript compiler API for
+//
+//   - a protected tag passed to Layer.succeed/sync/effect/scoped,
+//     Effect.provideService(Effect), Effect/Layer.updateService or
+//     Context.add/make
+//   - Context.GenericTag with the key of a protected tag
+//
+// outside the functions allowed to provide them. Calls are matched by the
+// effect export they resolve to, so `import { Effect as E }`, a namespace
+// import, destructuring, a local alias or a re-export doesn't hide them.
+// Calls marked `@ts-expect-error` are skipped - the compiler already rejects
+// those.
+//
+// A real grant captured with Effect.context and provided as a whole Context
+// (Effect.provide, Layer.succeedContext, Context.unsafeMake) names no tag,
+// so it is left to the runtime check: a grant only works for the user it was
+// minted for, anyone else dies with GrantMismatch.
+//
+// Each bypass has a fixture in ./fixtures/markers, checked by
+// ./check-markers.test.ts; tsconfig.json leaves that directory out of the
+// project scan.
+//
+//   bun run check-markers              scan the project
+//   bun run check-markers some.ts      scan the given files
+//
+// Exits with code 1 when anything is found.
+// =============================================================================
+
+// Protected tags, by the name of their identifier type, and the file that
+// declares them
+const PROTECTED: Record<string, string> = {
+  Transaction: "transaction.ts",
+  Requires: "rbac.ts",
+  RequiresOwn: "rbac.ts",
+  Tenant: "rbac.ts",
+};
+
+// Tag keys a forged GenericTag would have to reuse
+const isProtectedKey = (key: string) =>
+  key === "@app/Transaction" ||
+  (key.startsWith("@rbac/") && key !== "@rbac/CurrentUser");
+
+// The only functions allowed to provide protected tags, per file
+const ALLOWED: Record<string, ReadonlyArray<string>> = {
+  "transaction.ts": ["commitWith"],
+  "rbac.ts": [
+    "authenticateWith",
+    "authorize",
+    "authorizeAll",
+    "authorizeOwn",
+    "asPlatformAdmin",
+  ],
+};
+
+const PROVIDERS = new Set([
+  "Layer.succeed",
+  "Layer.sync",
+  "Layer.effect",
+  "Layer.scoped",
+  "Layer.updateService",
+  "Effect.provideService",
+  "Effect.provideServiceEffect",
+  "Effect.updateService",
+  "Context.add",
+  "Context.make",
+]);
+
+export interface Finding {
+  readonly file: string;
+  readonly line: number;
+  readonly tag: string;
+  readonly call: string;
+}
+
+// Name of the protected tag a type is a Tag for, if any
+const protectedTagOf = (checker: ts.TypeChecker, type: ts.Type) => {
+  const identifier = type.getProperty("Identifier");
+  if (!identifier) return undefined;
+  const symbol = checker.getTypeOfSymbol(identifier).getSymbol();
+  const declared = symbol?.declarations?.[0]?.getSourceFile().fileName;
+  if (!symbol || !declared) return undefined;
+  return PROTECTED[symbol.name] === path.basename(declared)
+    ? checker.typeToString(checker.getTypeOfSymbol(identifier))
+    : undefined;
+};
+
+const symbolAt = (checker: ts.TypeChecker, node: ts.Expression) =>
+  checker.getSymbolAtLocation(
+    ts.isPropertyAccessExpression(node) ? node.name : node,
+  );
+
+// "Module.export" of the effect function a call goes to, e.g.
+// "Effect.provideService", following imports, re-exports, destructuring and
+// local aliases. Undefined for anything not exported by effect.
+const calleeOf = (checker: ts.TypeChecker, call: ts.CallExpression) => {
+  let symbol = symbolAt(checker, call.expression);
+  const seen = new Set<ts.Symbol>();
+  while (symbol && !seen.has(symbol)) {
+    seen.add(symbol);
+    const declaration = symbol.valueDeclaration;
+    if (symbol.flags & ts.SymbolFlags.Alias) {
+      symbol = checker.getAliasedSymbol(symbol);
+    } else if (
+      // const provide = Effect.provideService
+      declaration &&
+      ts.isVariableDeclaration(declaration) &&
+      declaration.initializer &&
+      (ts.isIdentifier(declaration.initializer) ||
+        ts.isPropertyAccessExpression(declaration.initializer))
+    ) {
+      symbol = symbolAt(checker, declaration.initializer);
+    } else if (
+      // const { provideService } = Effect
+      declaration &&
+      ts.isBindingElement(declaration) &&
+      ts.isObjectBindingPattern(declaration.parent) &&
+      ts.isVariableDeclaration(declaration.parent.parent) &&
+      declaration.parent.parent.initializer
+    ) {
+      const name = (declaration.propertyName ?? declaration.name).getText();
+      symbol = checker
+        .getTypeAtLocation(declaration.parent.parent.initializer)
+        .getProperty(name);
+    } else {
+      break;
+    }
+  }
+
+  const file = symbol?.declarations?.[0]?.getSourceFile().fileName;
+  if (!symbol || !file?.includes("/node_modules/effect/")) return undefined;
+  return `${path.basename(file, ".d.ts")}.${symbol.name}`;
+};
+
+// Names of every function, method or variable the node is nested in
+const enclosingNames = (node: ts.Node) => {
+  const names: Array<string> = [];
+  for (let current = node.parent; current; current = current.parent) {
+    if (
+      (ts.isFunctionDeclaration(current) ||
+        ts.isMethodDeclaration(current) ||
+        ts.isVariableDeclaration(current)) &&
+      current.name &&
+      ts.isIdentifier(current.name)
+    ) {
+      names.push(current.name.text);
+    }
+  }
+  return names;
+};
+
+export const checkMarkers = (files: ReadonlyArray<string> = []) => {
+  const program = loadProgram(files);
+  const checker = program.getTypeChecker();
+  const root = process.cwd();
+  const findings: Array<Finding> = [];
+
+  for (const source of program.getSourceFiles()) {
+    if (!program.getRootFileNames().includes(source.fileName)) continue;
+    const file = path.relative(root, source.fileName);
+    const allowed = ALLOWED[path.basename(source.fileName)] ?? [];
+
+    const lines = source.text.split("\n");
+    const report = (node: ts.CallExpression, tag: string) => {
+      if (enclosingNames(node).some((name) => allowed.includes(name))) return;
+      const { line } = source.getLineAndCharacterOfPosition(node.getStart());
+      // Already rejected by the compiler, e.g. in ./types.test.ts
+      if (lines[line - 1]?.includes("@ts-expect-error")) return;
+      findings.push({
+        file,
+        line: line + 1,
+        tag,
+        call: node.expression.getText(source),
+      });
+    };
+
+    const visit = (node: ts.Node) => {
+      if (ts.isCallExpression(node)) {
+        const callee = calleeOf(checker, node);
+        if (callee && PROVIDERS.has(callee)) {
+          for (const arg of node.arguments) {
+            const tag = protectedTagOf(checker, checker.getTypeAtLocation(arg));
+            if (tag) report(node, tag);
+          }
+        }
+        const [key] = node.arguments;
+        if (
+          callee === "Context.GenericTag" &&
+          key &&
+          ts.isStringLiteralLike(key) &&
+          isProtectedKey(key.text)
+        ) {
+          report(node, `"${key.text}"`);
+        }
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(source);
+  }
+
+  return findings;
+};
+
+if (import.meta.main) {
+  const findings = checkMarkers(process.argv.slice(2));
+  for (const f of findings) {
+    console.error(`${f.file}:${f.line}: ${f.call} of ${f.tag}`);
+  }
+  if (findings.length > 0) {
+    console.error(
+      `[Markers] ${findings.length} marker(s) provided outside their authorizer`,
+    );
+    process.exitCode = 1;
+  } else {
+    console.log("[Markers] Only the authorizers provide marker tags");
+  }
+}
@@ -0,0 +1,328 @@
+import { describe, expect, test } from "bun:test";
+import { Effect, Layer, TestClock, TestContext } from "effect";
+import { AuditLog } from "./audit-log.ts";
+import {
+  CosmosClient,
+  DocumentConflict,
+  DocumentNotFound,
+  type InMemoryCosmosOptions,
+  InvalidQuery,
+  PreconditionFailed,
+} from "./cosmos.ts";
+import {
+  grantAll,
+  TestKit,
+  type TestKitServices,
+  withUser,
+} from "./test-kit.ts";
+import { Transaction } from "./transaction.ts";
+
+// The in-memory client on its own: concurrency checks, conflicts and the
+// query language, as an editor granted everything on "items"
+
+const cosmosOptions: InMemoryCosmosOptions = {
+  containers: { items: { partitionKey: "/kind" } },
+  seed: {
+    acme: {
+      items: [
+        { id: "apple", kind: "fruit", price: 3, origin: { country: "nl" } },
+        { id: "banana", kind: "fruit", price: 1, origin: { country: "ec" } },
+        { id: "carrot", kind: "vegetable", price: 2, organic: true },
+        { id: "dill", kind: "herb", price: 5, organic: false },
+      ],
+    },
+  },
+};
+
+const asEditor = <A, E, R>(effect: Effect.Effect<A, E, R>) =>
+  effect.pipe(
+    Transaction.commit,
+    grantAll("read:items", "write:items"),
+    withUser({ roles: ["editor"] }),
+  );
+
+const run = <A, E>(effect: Effect.Effect<A, E, TestKitServices>) =>
+  effect.pipe(
+    Effect.provide(
+      Layer.merge(TestKit({ cosmos: cosmosOptions }), TestContext.TestContext),
+    ),
+    Effect.runPromise,
+  );
+
+const items = { container: "items" } as const;
+
+const ids = (sql: string, parameters?: Readonly<Record<string, unknown>>) =>
+  Effect.flatMap(CosmosClient, (cosmos) =>
+    cosmos.query(sql, { ...items, ...(parameters ? { parameters } : {}) }),
+  ).pipe(Effect.map((docs) => docs.map((doc) => doc.id)));
+
+const queryError = (sql: string) =>
+  Effect.flatMap(CosmosClient, (cosmos) =>
+    Effect.flip(cosmos.query(sql, items)),
+  );
+
+describe("InMemoryCosmos", () => {
+  test("`_ts` is the write time by the Effect Clock", async () => {
+    const [created, updated] = await run(
+      asEditor(
+        Effect.gen(function* () {
+          const cosmos = yield* CosmosClient;
+          const created = yield* cosmos.createDocument(
+            { id: "egg", kind: "other" },
+            items,
+          );
+          yield* TestClock.adjust("1 minute");
+          const updated = yield* cosmos.upsertDocument(
+            { id: "egg", kind: "other", price: 4 },
+            items,
+          );
+          return [created, updated] as const;
+        }),
+      ),
+    );
+
+    expect(created._ts).toBe(0);
+    expect(updated._ts).toBe(60_000);
+    expect(updated._etag).not.toBe(created._etag);
+  });
+
+  test("writing with a stale ifMatch fails with PreconditionFailed", async () => {
+    const [replaced, upserted, deleted, stored] = await run(
+      asEditor(
+        Effect.gen(function* () {
+          const cosmos = yield* CosmosClient;
+          const read = yield* cosmos.getDocument("apple", items);
+          const stale = read!._etag;
+          // Someone else writes in between
+          const current = yield* cosmos.replaceDocument(
+            { ...read!, price: 4 },
+            items,
+          );
+          const write = { id: "apple", kind: "fruit", price: 9 };
+          return [
+            yield* Effect.flip(
+              cosmos.replaceDocument(write, { ...items, ifMatch: stale }),
+            ),
+            yield* Effect.flip(
+              cosmos.upsertDocument(write, { ...items, ifMatch: stale }),
+            ),
+            yield* Effect.flip(
+              cosmos.deleteDocument("apple", { ...items, ifMatch: stale }),
+            ),
+            current,
+          ] as const;
+        }),
+      ),
+    );
+
+    for (const error of [replaced, upserted, deleted]) {
+      expect(error).toBeInstanceOf(PreconditionFailed);
+      expect(error).toMatchObject({
+        container: "items",
+        id: "apple",
+        actualETag: stored._etag,
+      });
+    }
+    expect(stored.price).toBe(4);
+  });
+
+  test("a matching ifMatch writes", async () => {
+    const written = await run(
+      asEditor(
+        Effect.gen(function* () {
+          const cosmos = yield* CosmosClient;
+          const read = yield* cosmos.getDocument("banana", items);
+          return yield* cosmos.replaceDocument(
+            { ...read!, price: 2 },
+            { ...items, ifMatch: read!._etag },
+          );
+        }),
+      ),
+    );
+
+    expect(written.price).toBe(2);
+  });
+
+  test("creating a document that exists fails with DocumentConflict", async () => {
+    const error = await run(
+      asEditor(
+        Effect.flatMap(CosmosClient, (cosmos) =>
+          Effect.flip(
+            cosmos.createDocument({ id: "apple", kind: "fruit" }, items),
+          ),
+        ),
+      ),
+    );
+
+    expect(error).toBeInstanceOf(DocumentConflict);
+    expect(error).toMatchObject({ container: "items", id: "apple" });
+  });
+
+  test("replacing or deleting a missing document fails with DocumentNotFound", async () => {
+    const errors = await run(
+      asEditor(
+        Effect.gen(function* () {
+          const cosmos = yield* CosmosClient;
+          return [
+            yield* Effect.flip(
+              cosmos.replaceDocument({ id: "kiwi", kind: "fruit" }, items),
+            ),
+            yield* Effect.flip(cosmos.deleteDocument("kiwi", items)),
+          ];
+        }),
+      ),
+    );
+
+    for (const error of errors) {
+      expect(error).toBeInstanceOf(DocumentNotFound);
+    }
+  });
+
+  test("a rolled back write is audited with its transaction and savepoint", async () => {
+    class Abort extends Error {
+      readonly _tag = "Abort";
+    }
+
+    const events = await run(
+      Effect.gen(function* () {
+        const cosmos = yield* CosmosClient;
+        yield* cosmos.createDocument({ id: "egg", kind: "other" }, items);
+        yield* cosmos
+          .upsertDocument({ id: "egg", kind: "other", price: 4 }, items)
+          .pipe(
+            Effect.andThen(Effect.fail(new Abort())),
+            Transaction.commit,
+            Effect.ignore,
+          );
+      }).pipe(
+        asEditor,
+        Effect.andThen(
+          AuditLog.pipe(
+            Effect.flatMap((audit) => audit.query()),
+            Effect.map((entries) =>
+              entries.flatMap(({ event }) =>
+                event._tag === "DocumentWritten" ||
+                event._tag === "TransactionRolledBack"
+                  ? [event]
+                  : [],
+              ),
+            ),
+          ),
+        ),
+      ),
+    );
+
+    // Transaction ids and savepoint names count up across tests
+    const [created, upserted, rolledBack] = events;
+    expect(events.map((event) => event._tag)).toEqual([
+      "DocumentWritten",
+      "DocumentWritten",
+      "TransactionRolledBack",
+    ]);
+    expect(created).not.toHaveProperty("savepoint");
+    expect(upserted).toMatchObject({
+      operation: "upsert",
+      transactionId: created?.transactionId,
+      savepoint: expect.any(String),
+    });
+    expect(rolledBack).toMatchObject({
+      _tag: "TransactionRolledBack",
+      transactionId: upserted?.transactionId,
+      savepoint: upserted?.savepoint,
+    });
+  });
+});
+
+describe("query language", () => {
+  test("WHERE with AND, OR, parentheses and every comparison", async () => {
+    const results = await run(
+      asEditor(
+        Effect.all([
+          ids("SELECT * FROM c WHERE c.kind = 'fruit'"),
+          ids("SELECT * FROM c WHERE c.kind != 'fruit'"),
+          ids("SELECT * FROM c WHERE c.kind <> 'fruit' AND c.price >= 5"),
+          ids("SELECT * FROM c WHERE c.price < 2 OR c.price > 4"),
+          ids(
+            "SELECT * FROM c WHERE (c.price <= 2 OR c.kind = 'herb') AND c.organic = false",
+          ),
+          ids("SELECT * FROM c WHERE c.origin.country = 'nl'"),
+          ids("SELECT * FROM c WHERE c.organic = true"),
+        ]),
+      ),
+    );
+
+    expect(results).toEqual([
+      ["apple", "banana"],
+      ["carrot", "dill"],
+      ["dill"],
+      ["banana", "dill"],
+      ["dill"],
+      ["apple"],
+      ["carrot"],
+    ]);
+  });
+
+  test("ORDER BY, ASC / DESC and TOP", async () => {
+    const results = await run(
+      asEditor(
+        Effect.all([
+          ids("SELECT * FROM c ORDER BY c.price"),
+          ids("SELECT * FROM c ORDER BY c.price DESC"),
+          ids("SELECT * FROM c ORDER BY c.id ASC"),
+          ids("SELECT TOP 2 * FROM c WHERE c.price > 1 ORDER BY c.price DESC"),
+        ]),
+      ),
+    );
+
+    expect(results).toEqual([
+      ["banana", "carrot", "apple", "dill"],
+      ["dill", "apple", "carrot", "banana"],
+      ["apple", "banana", "carrot", "dill"],
+      ["dill", "apple"],
+    ]);
+  });
+
+  test("@parameters are filled in from the options", async () => {
+    const results = await run(
+      asEditor(
+        Effect.all([
+          ids("SELECT * FROM c WHERE c.kind = @kind AND c.price > @min", {
+            "@kind": "fruit",
+            "@min": 2,
+          }),
+          // A parameter is a value, never query text
+          ids("SELECT * FROM c WHERE c.kind = @kind", {
+            "@kind": "fruit' OR c.kind = 'herb",
+          }),
+        ]),
+      ),
+    );
+
+    expect(results).toEqual([["apple"], []]);
+  });
+
+  test("what the subset doesn't cover fails with InvalidQuery", async () => {
+    const errors = await run(
+      asEditor(
+        Effect.all([
+          queryError("SELECT c.id FROM c"),
+          queryError("SELECT * FROM c WHERE c.kind = @kind"),
+          queryError("SELECT * FROM c WHERE x.kind = 'fruit'"),
+          queryError("SELECT * FROM c WHERE c.price > 1 LIMIT 2"),
+          queryError("SELECT * FROM c WHERE c.price ~ 1"),
+          queryError("SELECT * FROM c WHERE (c.price > 1"),
+        ]),
+      ),
+    );
+
+    for (const error of errors) expect(error).toBeInstanceOf(InvalidQuery);
+    expect(errors.map((error) => error.reason)).toEqual([
+      "only SELECT * is supported",
+      "missing parameter @kind",
+      'unknown field "x.kind", fields must start with "c."',
+      "unexpected trailing input",
+      'unexpected input at 29: "~ 1"',
+      'expected ")"',
+    ]);
+  });
+});
@@ -0,0 +1,1135 @@
+import {
+  Clock,
+  Context,
+  Effect,
+  Layer,
+  Option,
+  Predicate,
+  Schema,
+} from "effect";
+import { AuditLog, diffDocuments, type DocumentWritten } from "./audit-log.ts";
+import { LoggedInUser } from "./auth.ts";
+import {
+  grantedFields,
+  requires,
+  type Requires,
+  type Tenant,
+  tenantOf,
+} from "./rbac.ts";
+import { Transaction } from "./transaction.ts";
+
+// =============================================================================
+// Cosmos client - document storage whose requirements are in the types
+//
+// Everything requires Transaction + LoggedInUser + Tenant, plus the
+// permission for the container it touches: `Requires<"read", C>` to read
+// container C, `Requires<"write", C>` to write to it. The container is named
+// on every call, so the permission is known from the call site.
+// Documents live in containers and are spread over partitions by the
+// Tenant, then the container's partition key (like a hierarchical partition
+// key): every call only sees the current Tenant's documents, and a
+// `partitionKey` option is always within that tenant. Every write is recorded in the AuditLog and
+// stamps a new `_etag`; passing
+// `ifMatch` makes the write fail with PreconditionFailed if someone else
+// changed the document in the meantime (optimistic concurrency).
+//
+// The client itself deals in untyped documents. `CosmosClient.container`
+// gives a handle on one container with a Schema: reads decode with it (a
+// document that doesn't match fails with DocumentDecodeError) and writes
+// encode with it.
+//
+// Fields the schema marks `restricted` take a permission of their own to
+// read, "read:<container>.<field>" (e.g. "read:users.email"). A handle's
+// reads leave out the restricted fields the CurrentUser's roles don't grant,
+// and their type has those fields optional. Writing a document without them
+// keeps their stored values, so a read-modify-write doesn't erase what the
+// writer couldn't see. The client's own reads aren't decoded, but they are
+// redacted too when the container is defined with its schema: a query can't
+// filter or sort on a field the user may not read either.
+// =============================================================================
+
+// --- Documents ---
+
+export interface CosmosDocument {
+  readonly id: string;
+  readonly [field: string]: unknown;
+}
+
+// A document as stored: `_etag` changes on every write, `_ts` is the
+// write time in epoch milliseconds.
+export interface StoredDocument extends CosmosDocument {
+  readonly _etag: string;
+  readonly _ts: number;
+}
+
+export interface ContainerDefinition {
+  // Path of the partition key inside each document, e.g. "/id" or "/tenantId"
+  readonly partitionKey: string;
+  // The schema of the container's documents, for its restricted fields.
+  // Without one, getDocument and query return every field.
+  readonly schema?: Schema.Schema.Any;
+}
+
+export interface ItemOptions<C extends string = string> {
+  // Also the resource of the permission the call requires
+  readonly container: C;
+  // Skips the cross-partition lookup when known
+  readonly partitionKey?: string;
+}
+
+export interface WriteOptions<
+  C extends string = string,
+> extends ItemOptions<C> {
+  // Only write if the stored document still has this `_etag`
+  readonly ifMatch?: string;
+  // Fields to keep from the stored document where `doc` leaves them out
+  readonly keep?: ReadonlyArray<string>;
+}
+
+export interface QueryOptions<
+  C extends string = string,
+> extends ItemOptions<C> {
+  // Values for `@name` placeholders in the query text
+  readonly parameters?: Readonly<Record<string, unknown>>;
+}
+
+// --- Errors ---
+
+export class DocumentNotFound extends Error {
+  readonly _tag = "DocumentNotFound";
+  constructor(
+    readonly container: string,
+    readonly id: string,
+  ) {
+    super(`Document "${id}" not found in container "${container}"`);
+  }
+}
+
+export class DocumentConflict extends Error {
+  readonly _tag = "DocumentConflict";
+  constructor(
+    readonly container: string,
+    readonly id: string,
+  ) {
+    super(`Document "${id}" already exists in container "${container}"`);
+  }
+}
+
+export class PreconditionFailed extends Error {
+  readonly _tag = "PreconditionFailed";
+  constructor(
+    readonly container: string,
+    readonly id: string,
+    readonly expectedETag: string,
+    readonly actualETag: string | undefined,
+  ) {
+    super(
+      `Document "${id}" in container "${container}" has ETag ${actualETag ?? "<none>"}, expected ${expectedETag}`,
+    );
+  }
+}
+
+export class DocumentDecodeError extends Error {
+  readonly _tag = "DocumentDecodeError";
+  constructor(
+    readonly container: string,
+    readonly id: string,
+    // What did not match, as formatted by Schema
+    readonly issue: string,
+  ) {
+    super(
+      `Document "${id}" in container "${container}" does not match its schema: ${issue}`,
+    );
+  }
+}
+
+export class DocumentEncodeError extends Error {
+  readonly _tag = "DocumentEncodeError";
+  constructor(
+    readonly container: string,
+    readonly id: string,
+    readonly issue: string,
+  ) {
+    super(
+      `Document "${id}" can't be encoded for container "${container}": ${issue}`,
+    );
+  }
+}
+
+export class InvalidQuery extends Error {
+  readonly _tag = "InvalidQuery";
+  constructor(
+    readonly query: string,
+    readonly reason: string,
+  ) {
+    super(`Invalid query: ${reason}`);
+  }
+}
+
+// --- Service ---
+
+type Read<C extends string, A, E = never> = Effect.Effect<
+  A,
+  E,
+  Transaction | LoggedInUser | Tenant | Requires<"read", C>
+>;
+type Write<C extends string, A, E = never> = Effect.Effect<
+  A,
+  E,
+  Transaction | LoggedInUser | Tenant | Requires<"write", C>
+>;
+
+// Cosmos client - methods REQUIRE Transaction, LoggedInUser and Tenant
+// and the read or write permission on the container they touch
+export class CosmosClient extends Context.Tag("@app/CosmosClient")<
+  CosmosClient,
+  {
+    // Read: requires Transaction + LoggedInUser + Requires<"read", C>.
+    // `undefined` on a miss.
+    readonly getDocument: <const C extends string>(
+      id: string,
+      options: ItemOptions<C>,
+    ) => Read<C, StoredDocument | undefined>;
+    // e.g. `SELECT * FROM c WHERE c.role = @role ORDER BY c.name`
+    readonly query: <const C extends string>(
+      sql: string,
+      options: QueryOptions<C>,
+    ) => Read<C, ReadonlyArray<StoredDocument>, InvalidQuery>;
+    // Write: requires Transaction + LoggedInUser + Requires<"write", C>!
+    readonly createDocument: <const C extends string>(
+      doc: CosmosDocument,
+      options: ItemOptions<C>,
+    ) => Write<C, StoredDocument, DocumentConflict>;
+    readonly replaceDocument: <const C extends string>(
+      doc: CosmosDocument,
+      options: WriteOptions<C>,
+    ) => Write<C, StoredDocument, DocumentNotFound | PreconditionFailed>;
+    readonly upsertDocument: <const C extends string>(
+      doc: CosmosDocument,
+      options: WriteOptions<C>,
+    ) => Write<C, StoredDocument, PreconditionFailed>;
+    readonly deleteDocument: <const C extends string>(
+      id: string,
+      options: WriteOptions<C>,
+    ) => Write<C, void, DocumentNotFound | PreconditionFailed>;
+  }
+>() {
+  // A handle on container C whose documents are described by `schema`.
+  // Usage: `const Users = CosmosClient.container("users", User)`, then
+  // `yield* Users.get(id)` requires Requires<"read", "users">.
+  // The restricted fields of a Struct schema are read off its `fields`.
+  static container<
+    const C extends string,
+    A extends { readonly id: string },
+    I extends CosmosDocument,
+    F = {},
+  >(
+    name: C,
+    schema: Schema.Schema<A, I> & { readonly fields?: F },
+  ): Container<C, A, Extract<RestrictedKeys<F>, keyof A>> {
+    return makeContainer(name, schema);
+  }
+}
+
+// =============================================================================
+// Typed containers
+// =============================================================================
+
+// A decoded document with the metadata of the stored one
+export type Stored<A> = A & { readonly _etag: string; readonly _ts: number };
+
+// --- Restricted fields ---
+
+const RestrictedTypeId: unique symbol = Symbol.for("@app/cosmos/Restricted");
+
+// A field of a container's schema that takes "read:<container>.<field>"
+export interface Restricted {
+  readonly [RestrictedTypeId]: true;
+}
+
+// Usage: `Schema.Struct({ id: Schema.String, email: restricted(Schema.String) })`
+export const restricted = <
+  S extends Schema.Schema.Any | Schema.PropertySignature.Any,
+>(
+  field: S,
+): S & Restricted =>
+  // On a copy: `Schema.String` itself stays unrestricted
+  Object.assign(
+    Schema.isPropertySignature(field)
+      ? field.annotations({})
+      : (field as Schema.Schema.Any).annotations({}),
+    { [RestrictedTypeId]: true as const },
+  ) as unknown as S & Restricted;
+
+const isRestricted = (field: unknown) =>
+  Predicate.hasProperty(field, RestrictedTypeId);
+
+// The restricted fields of a Struct schema, read off its `fields`
+const restrictedFieldsOf = (schema: Schema.Schema.Any) => {
+  const fields: Readonly<Record<string, unknown>> =
+    "fields" in schema ? (schema.fields as Record<string, unknown>) : {};
+  return Object.keys(fields).filter((field) => isRestricted(fields[field]));
+};
+
+// `doc` without `fields`
+const omitFields = <D extends object>(
+  doc: D,
+  fields: ReadonlyArray<string>,
+): D =>
+  Object.fromEntries(
+    Object.entries(doc).filter(([field]) => !fields.includes(field)),
+  ) as D;
+
+// The names of the restricted fields among a Struct's fields
+export type RestrictedKeys<F> = {
+  [K in keyof F]: F[K] extends Restricted ? K : never;
+}[keyof F];
+
+// A document whose restricted fields K may have been left out
+export type Redacted<A, K extends keyof A> = [K] extends [never]
+  ? A
+  : Omit<A, K> & Partial<Pick<A, K>>;
+
+// Like Read and Write, plus the CosmosClient the handle calls. Reads may
+// find a document that doesn't match the schema; writes may be handed one
+// that can't be encoded.
+type TypedRead<C extends string, A, E = never> = Effect.Effect<
+  A,
+  E | DocumentDecodeError,
+  CosmosClient | Transaction | LoggedInUser | Tenant | Requires<"read", C>
+>;
+type TypedWrite<C extends string, A, E = never> = Effect.Effect<
+  A,
+  E | DocumentEncodeError,
+  CosmosClient | Transaction | LoggedInUser | Tenant | Requires<"write", C>
+>;
+
+// The container is fixed by the handle, so it's left out of the options
+type Options<O> = Omit<O, "container">;
+
+// K are the restricted fields: reads may leave them out, and replace and
+// upsert may too (keeping the stored values)
+export interface Container<
+  C extends string,
+  A extends { readonly id: string },
+  K extends keyof A = never,
+> {
+  readonly name: C;
+  readonly get: (
+    id: string,
+    options?: Options<ItemOptions<C>>,
+  ) => TypedRead<C, Stored<Redacted<A, K>> | undefined>;
+  readonly query: (
+    sql: string,
+    options?: Options<QueryOptions<C>>,
+  ) => TypedRead<C, ReadonlyArray<Stored<Redacted<A, K>>>, InvalidQuery>;
+  readonly create: (
+    doc: A,
+    options?: Options<ItemOptions<C>>,
+  ) => TypedWrite<C, Stored<A>, DocumentConflict>;
+  readonly replace: (
+    doc: Redacted<A, K>,
+    options?: Options<Omit<WriteOptions<C>, "keep">>,
+  ) => TypedWrite<
+    C,
+    Stored<Redacted<A, K>>,
+    DocumentNotFound | PreconditionFailed
+  >;
+  readonly upsert: (
+    doc: Redacted<A, K>,
+    options?: Options<Omit<WriteOptions<C>, "keep">>,
+  ) => TypedWrite<C, Stored<Redacted<A, K>>, PreconditionFailed>;
+  readonly delete: (
+    id: string,
+    options?: Options<WriteOptions<C>>,
+  ) => TypedWrite<C, void, DocumentNotFound | PreconditionFailed>;
+}
+
+const makeContainer = <
+  C extends string,
+  A extends { readonly id: string },
+  I extends CosmosDocument,
+  K extends keyof A,
+>(
+  name: C,
+  schema: Schema.Schema<A, I>,
+): Container<C, A, K> => {
+  const restrictedFields = restrictedFieldsOf(schema);
+
+  // The schema without `fields`, for a document that leaves them out
+  const schemaWithout = (
+    fields: ReadonlyArray<string>,
+  ): Schema.Schema.AnyNoContext =>
+    fields.length === 0
+      ? schema
+      : schema.pipe(Schema.omit(...(fields as Array<keyof A & keyof I>)));
+
+  // The schema doesn't know about `_etag` and `_ts`, so they are put back
+  // on the decoded document. The client may already have left out
+  // restricted fields, which are then left out of the schema too.
+  // A document stored without a restricted field (written before the field
+  // existed, say) decodes as well, on purpose: it can't be told apart from
+  // a redacted one, and Redacted makes the field optional for every reader,
+  // those granted it included.
+  const decodeStored = (doc: StoredDocument) =>
+    Schema.decodeUnknown(
+      schemaWithout(restrictedFields.filter((field) => !(field in doc))),
+    )(doc).pipe(
+      Effect.map((decoded): Stored<A> => ({
+        ...(decoded as A),
+        _etag: doc._etag,
+        _ts: doc._ts,
+      })),
+      Effect.mapError(
+        (error) => new DocumentDecodeError(name, doc.id, error.message),
+      ),
+    );
+
+  // Leave out the restricted fields not in `granted`
+  const redact = (
+    doc: Stored<A>,
+    granted: ReadonlyArray<string>,
+  ): Effect.Effect<Stored<Redacted<A, K>>> => {
+    const hidden = restrictedFields.filter(
+      (field) => field in doc && !granted.includes(field),
+    );
+    if (hidden.length === 0) return Effect.succeed(doc);
+    return Effect.as(
+      Effect.log(`[Cosmos] Redacted ${name}/${doc.id}: ${hidden.join(", ")}`),
+      omitFields(doc, hidden) as Stored<Redacted<A, K>>,
+    );
+  };
+
+  // Decided once per read, for every document it returns
+  const readable = grantedFields("read", name, restrictedFields);
+
+  // Restricted fields `doc` leaves out, whose stored values are kept
+  const leftOut = (doc: Redacted<A, K>) =>
+    restrictedFields.filter((field) => !(field in doc));
+
+  // Encoded without the fields it leaves out
+  const encodeDocument = (
+    doc: Redacted<A, K>,
+    without: ReadonlyArray<string>,
+  ) =>
+    Schema.encodeUnknown(schemaWithout(without))(doc).pipe(
+      Effect.map((encoded): CosmosDocument => encoded),
+      Effect.mapError(
+        (error) =>
+          new DocumentEncodeError(
+            name,
+            (doc as { readonly id: string }).id,
+            error.message,
+          ),
+      ),
+    );
+
+  // What was written is `doc`, so there is nothing to decode: only the
+  // metadata of the stored document is taken
+  const written = <D extends Redacted<A, K>>(
+    doc: D,
+    stored: StoredDocument,
+  ): Stored<D> => ({
+    ...doc,
+    _etag: stored._etag,
+    _ts: stored._ts,
+  });
+
+  return {
+    name,
+    get: (id, options) =>
+      Effect.gen(function* () {
+        const cosmos = yield* CosmosClient;
+        const doc = yield* cosmos.getDocument(id, {
+          ...options,
+          container: name,
+        });
+        if (doc === undefined) return undefined;
+        return yield* redact(yield* decodeStored(doc), yield* readable);
+      }),
+    query: (sql, options) =>
+      Effect.gen(function* () {
+        const cosmos = yield* CosmosClient;
+        const docs = yield* cosmos.query(sql, { ...options, container: name });
+        const decoded = yield* Effect.forEach(docs, decodeStored);
+        const granted = yield* readable;
+        return yield* Effect.forEach(decoded, (doc) => redact(doc, granted));
+      }),
+    create: (doc, options) =>
+      Effect.gen(function* () {
+        const cosmos = yield* CosmosClient;
+        const encoded = yield* encodeDocument(doc, []);
+        const stored = yield* cosmos.createDocument(encoded, {
+          ...options,
+          container: name,
+        });
+        return written(doc, stored);
+      }),
+    replace: (doc, options) =>
+      Effect.gen(function* () {
+        const cosmos = yield* CosmosClient;
+        const keep = leftOut(doc);
+        const encoded = yield* encodeDocument(doc, keep);
+        const stored = yield* cosmos.replaceDocument(encoded, {
+          ...options,
+          container: name,
+          keep,
+        });
+        return written(doc, stored);
+      }),
+    upsert: (doc, options) =>
+      Effect.gen(function* () {
+        const cosmos = yield* CosmosClient;
+        const keep = leftOut(doc);
+        const encoded = yield* encodeDocument(doc, keep);
+        const stored = yield* cosmos.upsertDocument(encoded, {
+          ...options,
+          container: name,
+          keep,
+        });
+        return written(doc, stored);
+      }),
+    delete: (id, options) =>
+      Effect.flatMap(CosmosClient, (cosmos) =>
+        cosmos.deleteDocument(id, { ...options, container: name }),
+      ),
+  };
+};
+
+// =============================================================================
+// In-memory implementation
+// =============================================================================
+
+export interface InMemoryCosmosOptions {
+  readonly containers: Readonly<Record<string, ContainerDefinition>>;
+  // Documents present before the first transaction, per tenant and container
+  readonly seed?: Readonly<
+    Record<string, Readonly<Record<string, ReadonlyArray<CosmosDocument>>>>
+  >;
+}
+
+// partition key value -> id -> document
+type Partitions = Map<string, Map<string, StoredDocument>>;
+
+export const makeInMemoryCosmos = (options: InMemoryCosmosOptions) =>
+  Effect.gen(function* () {
+    const audit = yield* AuditLog;
+    // container -> tenant -> partitions
+    const containers = new Map<string, Map<string, Partitions>>(
+      Object.keys(options.containers).map((name) => [name, new Map()]),
+    );
+    let etagCounter = 0;
+
+    // Containers are fixed when the layer is built, so naming an unknown one
+    // is a programming error (a defect) rather than a typed failure.
+    const definitionOf = (container: string) => {
+      const definition = options.containers[container];
+      if (!definition) throw new Error(`Unknown container "${container}"`);
+      return definition;
+    };
+
+    const partitionsOf = (container: string, tenant: string) => {
+      definitionOf(container);
+      const tenants = containers.get(container)!;
+      let partitions = tenants.get(tenant);
+      if (!partitions) {
+        partitions = new Map();
+        tenants.set(tenant, partitions);
+      }
+      return partitions;
+    };
+
+    const partitionKeyOf = (container: string, doc: CosmosDocument) => {
+      const path = definitionOf(container).partitionKey.split("/").slice(1);
+      return String(readPath(doc, path) ?? "");
+    };
+
+    // Find a document, scanning every partition of the tenant if no key is
+    // given
+    const find = (
+      container: string,
+      tenant: string,
+      id: string,
+      partitionKey?: string,
+    ) => {
+      const partitions = partitionsOf(container, tenant);
+      if (partitionKey !== undefined) {
+        return partitions.get(partitionKey)?.get(id);
+      }
+      for (const documents of partitions.values()) {
+        const doc = documents.get(id);
+        if (doc) return doc;
+      }
+      return undefined;
+    };
+
+    const put = (
+      container: string,
+      tenant: string,
+      doc: StoredDocument | undefined,
+      key: { id: string; partitionKey: string },
+    ) => {
+      const partitions = partitionsOf(container, tenant);
+      let documents = partitions.get(key.partitionKey);
+      if (!documents) {
+        documents = new Map();
+        partitions.set(key.partitionKey, documents);
+      }
+      if (doc) documents.set(key.id, doc);
+      else documents.delete(key.id);
+    };
+
+    // `doc`, plus the fields in `keep` it leaves out from `current`
+    const withKept = (
+      doc: CosmosDocument,
+      current: StoredDocument | undefined,
+      keep: ReadonlyArray<string> = [],
+    ): CosmosDocument => {
+      const kept = keep.filter(
+        (field) => !(field in doc) && current !== undefined && field in current,
+      );
+      return kept.length === 0
+        ? doc
+        : {
+            ...Object.fromEntries(
+              kept.map((field) => [field, current![field]]),
+            ),
+            ...doc,
+          };
+    };
+
+    // The write time comes from the Effect Clock, so TestClock controls it
+    const stamp = (doc: CosmosDocument) =>
+      Effect.map(Clock.currentTimeMillis, (now): StoredDocument => {
+        const { _etag, _ts, ...fields } = doc;
+        return {
+          ...fields,
+          id: doc.id,
+          _etag: `"${++etagCounter}"`,
+          _ts: now,
+        };
+      });
+
+    // Store `next` (or remove the document when undefined), register the
+    // inverse write with the enclosing transaction and audit the change.
+    const write = (
+      operation: DocumentWritten["operation"],
+      user: LoggedInUser["Type"],
+      tenant: string,
+      container: string,
+      key: { id: string; partitionKey: string },
+      next: StoredDocument | undefined,
+    ) =>
+      Effect.gen(function* () {
+        const tx = yield* Transaction;
+        const previous = find(container, tenant, key.id, key.partitionKey);
+        put(container, tenant, next, key);
+        yield* audit.record({
+          _tag: "DocumentWritten",
+          userId: user.id,
+          tenant,
+          resource: container,
+          documentId: key.id,
+          operation,
+          diff: diffDocuments(previous, next),
+          transactionId: tx.id,
+          ...Option.match(tx.savepoint, {
+            onNone: () => ({}),
+            onSome: (name) => ({ savepoint: name }),
+          }),
+        });
+        yield* tx.onRollback(
+          Effect.log(
+            `[Cosmos] Undo write: ${container}/${key.id} in ${tenant}`,
+          ).pipe(Effect.andThen(() => put(container, tenant, previous, key))),
+        );
+      });
+
+    const checkETag = (
+      container: string,
+      id: string,
+      current: StoredDocument | undefined,
+      ifMatch: string | undefined,
+    ) =>
+      ifMatch !== undefined && current?._etag !== ifMatch
+        ? Effect.fail(
+            new PreconditionFailed(container, id, ifMatch, current?._etag),
+          )
+        : Effect.void;
+
+    // Must be in a transaction, authenticated, in a tenant the user may work
+    // in (tenantOf), and allowed to read or write this container! User and
+    // tenant go on the method's span.
+    const reader = <C extends string>(container: C) =>
+      Effect.gen(function* () {
+        yield* Transaction;
+        const user = yield* LoggedInUser;
+        const tenant = yield* tenantOf(user);
+        yield* Effect.annotateCurrentSpan({
+          "user.id": user.id,
+          "tenant.id": tenant.id,
+        });
+        return { user, tenant: tenant.id };
+      }).pipe(requires("read", container));
+
+    const writer = <C extends string>(container: C) =>
+      Effect.gen(function* () {
+        yield* Transaction;
+        const user = yield* LoggedInUser;
+        const tenant = yield* tenantOf(user);
+        yield* Effect.annotateCurrentSpan({
+          "user.id": user.id,
+          "tenant.id": tenant.id,
+        });
+        return { user, tenant: tenant.id };
+      }).pipe(requires("write", container));
+
+    // Leave out the restricted fields of the container's schema that the
+    // user isn't granted, decided once for all of `docs`
+    const redactAll = <C extends string>(
+      container: C,
+      docs: ReadonlyArray<StoredDocument>,
+    ) =>
+      Effect.gen(function* () {
+        const { schema } = definitionOf(container);
+        const restricted = schema ? restrictedFieldsOf(schema) : [];
+        if (restricted.length === 0 || docs.length === 0) return docs;
+        const granted = yield* grantedFields("read", container, restricted);
+        const hidden = restricted.filter((field) => !granted.includes(field));
+        if (hidden.length === 0) return docs;
+        yield* Effect.log(
+          `[Cosmos] Left out of ${container}: ${hidden.join(", ")}`,
+        );
+        return docs.map((doc) => omitFields(doc, hidden));
+      });
+
+    // Every method runs in a "CosmosClient.<method>" span
+    const traced = (
+      method: string,
+      container: string,
+      attributes: Record<string, unknown>,
+    ) =>
+      Effect.withSpan(`CosmosClient.${method}`, {
+        attributes: { "cosmos.container": container, ...attributes },
+      });
+
+    for (const [tenant, seed] of Object.entries(options.seed ?? {})) {
+      for (const [container, docs] of Object.entries(seed)) {
+        for (const doc of docs) {
+          put(container, tenant, yield* stamp(doc), {
+            id: doc.id,
+            partitionKey: partitionKeyOf(container, doc),
+          });
+        }
+      }
+    }
+
+    return CosmosClient.of({
+      getDocument: (id, opts) =>
+        Effect.gen(function* () {
+          const { container } = opts;
+          const { user, tenant } = yield* reader(container);
+          yield* Effect.log(
+            `[Cosmos] Get: ${container}/${id} (as ${user.email})`,
+          );
+          const doc = find(container, tenant, id, opts.partitionKey);
+          if (doc === undefined) return undefined;
+          const [redacted] = yield* redactAll(container, [doc]);
+          return redacted;
+        }).pipe(traced("getDocument", opts.container, { "document.id": id })),
+
+      query: (sql, opts) =>
+        Effect.gen(function* () {
+          const { container } = opts;
+          const { user, tenant } = yield* reader(container);
+          const query = yield* Effect.try({
+            try: () => parseQuery(sql, opts.parameters ?? {}),
+            catch: (error) =>
+              error instanceof InvalidQuery
+                ? error
+                : new InvalidQuery(sql, String(error)),
+          });
+          yield* Effect.log(
+            `[Cosmos] Query: ${container} "${sql}" (as ${user.email})`,
+          );
+
+          const partitions = partitionsOf(container, tenant);
+          const candidates =
+            opts.partitionKey !== undefined
+              ? [...(partitions.get(opts.partitionKey)?.values() ?? [])]
+              : [...partitions.values()].flatMap((docs) => [...docs.values()]);
+          // Redacted first, so the query can't test what it can't return
+          return runQuery(query, yield* redactAll(container, candidates));
+        }).pipe(traced("query", opts.container, { "cosmos.query": sql })),
+
+      createDocument: (doc, opts) =>
+        Effect.gen(function* () {
+          const { container } = opts;
+          const { user, tenant } = yield* writer(container);
+          const partitionKey = partitionKeyOf(container, doc);
+          if (find(container, tenant, doc.id, partitionKey)) {
+            return yield* Effect.fail(new DocumentConflict(container, doc.id));
+          }
+          yield* Effect.log(`[Cosmos] Create (as ${user.email}):`, doc);
+          const stored = yield* stamp(doc);
+          yield* write(
+            "create",
+            user,
+            tenant,
+            container,
+            { id: doc.id, partitionKey },
+            stored,
+          );
+          return stored;
+        }).pipe(
+          traced("createDocument", opts.container, { "document.id": doc.id }),
+        ),
+
+      replaceDocument: (doc, opts) =>
+        Effect.gen(function* () {
+          const { container } = opts;
+          const { user, tenant } = yield* writer(container);
+          const partitionKey = partitionKeyOf(container, doc);
+          const current = find(container, tenant, doc.id, partitionKey);
+          if (!current) {
+            return yield* Effect.fail(new DocumentNotFound(container, doc.id));
+          }
+          yield* checkETag(container, doc.id, current, opts.ifMatch);
+          yield* Effect.log(`[Cosmos] Replace (as ${user.email}):`, doc);
+          const stored = yield* stamp(withKept(doc, current, opts.keep));
+          yield* write(
+            "replace",
+            user,
+            tenant,
+            container,
+            { id: doc.id, partitionKey },
+            stored,
+          );
+          return stored;
+        }).pipe(
+          traced("replaceDocument", opts.container, { "document.id": doc.id }),
+        ),
+
+      upsertDocument: (doc, opts) =>
+        Effect.gen(function* () {
+          const { container } = opts;
+          const { user, tenant } = yield* writer(container);
+          const partitionKey = partitionKeyOf(container, doc);
+          const current = find(container, tenant, doc.id, partitionKey);
+          yield* checkETag(container, doc.id, current, opts.ifMatch);
+          yield* Effect.log(`[Cosmos] Upsert (as ${user.email}):`, doc);
+          const stored = yield* stamp(withKept(doc, current, opts.keep));
+          yield* write(
+            "upsert",
+            user,
+            tenant,
+            container,
+            { id: doc.id, partitionKey },
+            stored,
+          );
+          return stored;
+        }).pipe(
+          traced("upsertDocument", opts.container, { "document.id": doc.id }),
+        ),
+
+      deleteDocument: (id, opts) =>
+        Effect.gen(function* () {
+          const { container } = opts;
+          const { user, tenant } = yield* writer(container);
+          const current = find(container, tenant, id, opts.partitionKey);
+          if (!current) {
+            return yield* Effect.fail(new DocumentNotFound(container, id));
+          }
+          yield* checkETag(container, id, current, opts.ifMatch);
+          yield* Effect.log(
+            `[Cosmos] Delete ${container}/${id} (as ${user.email})`,
+          );
+          yield* write(
+            "delete",
+            user,
+            tenant,
+            container,
+            { id, partitionKey: partitionKeyOf(container, current) },
+            undefined,
+          );
+        }).pipe(
+          traced("deleteDocument", opts.container, { "document.id": id }),
+        ),
+    });
+  });
+
+export const InMemoryCosmos = (options: InMemoryCosmosOptions) =>
+  Layer.effect(CosmosClient, makeInMemoryCosmos(options));
+
+// =============================================================================
+// Query language - a small SQL subset:
+//
+//   SELECT [TOP n] * FROM c
+//   [WHERE c.a.b = @param AND (c.x > 3 OR c.y != 'z')]
+//   [ORDER BY c.field [ASC | DESC]]
+//
+// Comparisons: = != <> < <= > >=. Literals: 'strings', numbers, true,
+// false, null. `@name` reads from the `parameters` option.
+// =============================================================================
+
+type Operand =
+  | { readonly _tag: "Field"; readonly path: ReadonlyArray<string> }
+  | { readonly _tag: "Literal"; readonly value: unknown };
+
+type Condition =
+  | {
+      readonly _tag: "Compare";
+      readonly op: "=" | "!=" | "<" | "<=" | ">" | ">=";
+      readonly left: Operand;
+      readonly right: Operand;
+    }
+  | {
+      readonly _tag: "And" | "Or";
+      readonly left: Condition;
+      readonly right: Condition;
+    };
+
+interface Query {
+  readonly top: number | undefined;
+  readonly where: Condition | undefined;
+  readonly orderBy:
+    | { readonly path: ReadonlyArray<string>; readonly descending: boolean }
+    | undefined;
+}
+
+const TOKEN =
+  /\s*(?:(-?\d+(?:\.\d+)?)|'((?:[^']|'')*)'|(@\w+)|([A-Za-z_]\w*(?:\.[A-Za-z_]\w*)*)|(<=|>=|!=|<>|=|<|>|\(|\)|\*))/y;
+
+type Token =
+  | { readonly kind: "number"; readonly value: number }
+  | { readonly kind: "string"; readonly value: string }
+  | { readonly kind: "param"; readonly name: string }
+  | { readonly kind: "word"; readonly text: string }
+  | { readonly kind: "symbol"; readonly text: string };
+
+const tokenize = (sql: string): Array<Token> => {
+  const tokens: Array<Token> = [];
+  TOKEN.lastIndex = 0;
+  while (TOKEN.lastIndex < sql.length) {
+    if (/^\s*$/.test(sql.slice(TOKEN.lastIndex))) break;
+    const start = TOKEN.lastIndex;
+    const match = TOKEN.exec(sql);
+    if (!match) {
+      throw new InvalidQuery(
+        sql,
+        `unexpected input at ${start}: "${sql.slice(start).trim()}"`,
+      );
+    }
+    const [, number, string, param, word, symbol] = match;
+    if (number !== undefined)
+      tokens.push({ kind: "number", value: Number(number) });
+    else if (string !== undefined)
+      tokens.push({ kind: "string", value: string.replaceAll("''", "'") });
+    else if (param !== undefined) tokens.push({ kind: "param", name: param });
+    else if (word !== undefined) tokens.push({ kind: "word", text: word });
+    else tokens.push({ kind: "symbol", text: symbol! });
+  }
+  return tokens;
+};
+
+const parseQuery = (
+  sql: string,
+  parameters: Readonly<Record<string, unknown>>,
+): Query => {
+  const tokens = tokenize(sql);
+  let position = 0;
+
+  const fail = (reason: string): never => {
+    throw new InvalidQuery(sql, reason);
+  };
+  const peek = () => tokens[position];
+  const isKeyword = (keyword: string) => {
+    const token = peek();
+    return token?.kind === "word" && token.text.toUpperCase() === keyword;
+  };
+  const expectKeyword = (keyword: string) => {
+    if (!isKeyword(keyword)) fail(`expected ${keyword}`);
+    position++;
+  };
+  const isSymbol = (text: string) => {
+    const token = peek();
+    return token?.kind === "symbol" && token.text === text;
+  };
+
+  expectKeyword("SELECT");
+  let top: number | undefined;
+  if (isKeyword("TOP")) {
+    position++;
+    const token = tokens[position++];
+    if (token?.kind !== "number") return fail("expected a number after TOP");
+    top = token.value;
+  }
+  if (!isSymbol("*")) fail("only SELECT * is supported");
+  position++;
+  expectKeyword("FROM");
+  const aliasToken = tokens[position++];
+  if (aliasToken?.kind !== "word") return fail("expected an alias after FROM");
+  const alias = aliasToken.text;
+
+  const field = (text: string) => {
+    const [head, ...path] = text.split(".");
+    if (head !== alias || path.length === 0) {
+      fail(`unknown field "${text}", fields must start with "${alias}."`);
+    }
+    return path;
+  };
+
+  const operand = (): Operand => {
+    const token = tokens[position++];
+    if (!token) return fail("unexpected end of query");
+    switch (token.kind) {
+      case "number":
+      case "string":
+        return { _tag: "Literal", value: token.value };
+      case "param":
+        if (!(token.name in parameters)) {
+          return fail(`missing parameter ${token.name}`);
+        }
+        return { _tag: "Literal", value: parameters[token.name] };
+      case "word": {
+        const upper = token.text.toUpperCase();
+        if (upper === "TRUE") return { _tag: "Literal", value: true };
+        if (upper === "FALSE") return { _tag: "Literal", value: false };
+        if (upper === "NULL") return { _tag: "Literal", value: null };
+        return { _tag: "Field", path: field(token.text) };
+      }
+      case "symbol":
+        return fail(`unexpected "${token.text}"`);
+    }
+  };
+
+  const comparison = (): Condition => {
+    if (isSymbol("(")) {
+      position++;
+      const inner = or();
+      if (!isSymbol(")")) fail(`expected ")"`);
+      position++;
+      return inner;
+    }
+    const left = operand();
+    const token = tokens[position++];
+    const ops = ["=", "!=", "<>", "<", "<=", ">", ">="];
+    if (token?.kind !== "symbol" || !ops.includes(token.text)) {
+      return fail("expected a comparison operator");
+    }
+    const op = token.text === "<>" ? "!=" : token.text;
+    return {
+      _tag: "Compare",
+      op: op as "=" | "!=" | "<" | "<=" | ">" | ">=",
+      left,
+      right: operand(),
+    };
+  };
+
+  const and = (): Condition => {
+    let left = comparison();
+    while (isKeyword("AND")) {
+      position++;
+      left = { _tag: "And", left, right: comparison() };
+    }
+    return left;
+  };
+
+  const or = (): Condition => {
+    let left = and();
+    while (isKeyword("OR")) {
+      position++;
+      left = { _tag: "Or", left, right: and() };
+    }
+    return left;
+  };
+
+  let where: Condition | undefined;
+  if (isKeyword("WHERE")) {
+    position++;
+    where = or();
+  }
+
+  let orderBy: Query["orderBy"];
+  if (isKeyword("ORDER")) {
+    position++;
+    expectKeyword("BY");
+    const token = tokens[position++];
+    if (token?.kind !== "word") return fail("expected a field after ORDER BY");
+    const path = field(token.text);
+    let descending = false;
+    if (isKeyword("ASC") || isKeyword("DESC")) {
+      descending = isKeyword("DESC");
+      position++;
+    }
+    orderBy = { path, descending };
+  }
+
+  if (position < tokens.length) fail("unexpected trailing input");
+  return { top, where, orderBy };
+};
+
+const readPath = (doc: unknown, path: ReadonlyArray<string>) =>
+  path.reduce<unknown>(
+    (value, key) =>
+      typeof value === "object" && value !== null
+        ? (value as Record<string, unknown>)[key]
+        : undefined,
+    doc,
+  );
+
+const compare = (a: unknown, b: unknown) =>
+  (typeof a === "number" && typeof b === "number") ||
+  (typeof a === "string" && typeof b === "string")
+    ? a < b
+      ? -1
+      : a > b
+        ? 1
+        : 0
+    : undefined;
+
+const matches = (condition: Condition, doc: StoredDocument): boolean => {
+  switch (condition._tag) {
+    case "And":
+      return matches(condition.left, doc) && matches(condition.right, doc);
+    case "Or":
+      return matches(condition.left, doc) || matches(condition.right, doc);
+    case "Compare": {
+      const value = (operand: Operand) =>
+        operand._tag === "Field" ? readPath(doc, operand.path) : operand.value;
+      const left = value(condition.left);
+      const right = value(condition.right);
+      if (condition.op === "=") return left === right;
+      if (condition.op === "!=") return left !== right;
+      const order = compare(left, right);
+      if (order === undefined) return false;
+      if (condition.op === "<") return order < 0;
+      if (condition.op === "<=") return order <= 0;
+      if (condition.op === ">") return order > 0;
+      return order >= 0;
+    }
+  }
+};
+
+const runQuery = (
+  query: Query,
+  documents: ReadonlyArray<StoredDocument>,
+): ReadonlyArray<StoredDocument> => {
+  let results = documents.filter(
+    (doc) => query.where === undefined || matches(query.where, doc),
+  );
+  const { orderBy } = query;
+  if (orderBy) {
+    // Documents without a comparable value sort last
+    results = results.toSorted((a, b) => {
+      const left = readPath(a, orderBy.path);
+      const right = readPath(b, orderBy.path);
+      if (left === undefined || right === undefined) {
+        return Number(left === undefined) - Number(right === undefined);
+      }
+      const order = compare(left, right) ?? 0;
+      return orderBy.descending ? -order : order;
+    });
+  }
+  return query.top === undefined ? results : results.slice(0, query.top);
+};
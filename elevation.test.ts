@@ -0,0 +1,197 @@
+import { describe, expect, test } from "bun:test";
+import {
+  type Duration,
+  Effect,
+  Fiber,
+  Layer,
+  TestClock,
+  TestContext,
+} from "effect";
+import {
+  CrossTenantApprovalDenied,
+  ElevationExpired,
+  SelfApprovalDenied,
+} from "./elevation.ts";
+import {
+  AccessDenied,
+  approveElevation,
+  asPlatformAdmin,
+  authorize,
+  authorizeOwn,
+  createPost,
+  deletePost,
+  requestElevation,
+} from "./rbac.ts";
+import {
+  assertInOrder,
+  TestKit,
+  type TestKitServices,
+  type TestUser,
+  withUser,
+} from "./test-kit.ts";
+
+const run = <A, E>(effect: Effect.Effect<A, E, TestKitServices>) =>
+  effect.pipe(
+    Effect.provide(Layer.merge(TestKit(), TestContext.TestContext)),
+    Effect.runPromise,
+  );
+
+const editor: TestUser = { id: "user-1", roles: ["editor"] };
+const viewer: TestUser = { id: "user-2", roles: ["viewer"] };
+const admin: TestUser = { id: "user-9", roles: ["admin"] };
+
+// `user` asks for `permission`, the admin approves
+const elevate = (
+  user: TestUser,
+  permission: `${string}:${string}`,
+  ttl: Duration.DurationInput,
+) =>
+  Effect.gen(function* () {
+    const request = yield* requestElevation(
+      permission,
+      "INC-7: spam wave",
+      ttl,
+    ).pipe(withUser(user));
+    return yield* approveElevation(request.id).pipe(
+      authorize("approve", "elevations"),
+      withUser(admin),
+    );
+  });
+
+const deleteAsEditor = (id: number) =>
+  deletePost(id).pipe(
+    authorizeOwn("delete", "posts"),
+    authorize("read", "posts"),
+    withUser(editor),
+  );
+
+describe("elevations", () => {
+  test("an approved elevation lets an editor delete someone else's post", async () => {
+    const before = await run(
+      Effect.gen(function* () {
+        const before = yield* Effect.flip(deleteAsEditor(1));
+        yield* elevate(editor, "delete:posts", "15 minutes");
+        yield* deleteAsEditor(1);
+        yield* assertInOrder(
+          { _tag: "PermissionDenied", action: "delete", resourceId: "1" },
+          { _tag: "ElevationRequested", userId: "user-1" },
+          { _tag: "ElevationApproved", approvedBy: "user-9" },
+          {
+            _tag: "PermissionGranted",
+            action: "delete",
+            resourceId: "1",
+            elevationId: 1,
+          },
+        );
+        return before;
+      }),
+    );
+
+    expect(before).toBeInstanceOf(AccessDenied);
+  });
+
+  test("approving takes someone else with approve:elevations", async () => {
+    const [byEditor, bySelf] = await run(
+      Effect.gen(function* () {
+        const request = yield* requestElevation(
+          "delete:posts",
+          "INC-7",
+          "15 minutes",
+        ).pipe(withUser(admin));
+        const approve = approveElevation(request.id).pipe(
+          authorize("approve", "elevations"),
+        );
+        return [
+          yield* Effect.flip(withUser(editor)(approve)),
+          yield* Effect.flip(withUser(admin)(approve)),
+        ] as const;
+      }),
+    );
+
+    expect(byEditor).toBeInstanceOf(AccessDenied);
+    expect(bySelf).toBeInstanceOf(SelfApprovalDenied);
+  });
+
+  test("an admin of another tenant can't approve, unless stepped in as platform admin", async () => {
+    const globexEditor: TestUser = { ...editor, tenant: "globex" };
+    const deleteInGlobex = deletePost(1).pipe(
+      authorizeOwn("delete", "posts"),
+      authorize("read", "posts"),
+      withUser(globexEditor),
+    );
+
+    const [refused, stillDenied, approved] = await run(
+      Effect.gen(function* () {
+        const request = yield* requestElevation(
+          "delete:posts",
+          "INC-7",
+          "15 minutes",
+        ).pipe(withUser(globexEditor));
+        const approve = approveElevation(request.id).pipe(
+          authorize("approve", "elevations"),
+        );
+
+        const refused = yield* Effect.flip(withUser(admin)(approve));
+        const stillDenied = yield* Effect.flip(deleteInGlobex);
+        const approved = yield* approve.pipe(
+          asPlatformAdmin("globex", "INC-7"),
+          withUser({ id: "user-8", roles: ["platform-admin"] }),
+        );
+        yield* deleteInGlobex;
+        return [refused, stillDenied, approved] as const;
+      }),
+    );
+
+    expect(refused).toBeInstanceOf(CrossTenantApprovalDenied);
+    expect(refused).toMatchObject({
+      approverId: "user-9",
+      approverTenant: "acme",
+      requestTenant: "globex",
+    });
+    expect(stillDenied).toBeInstanceOf(AccessDenied);
+    expect(approved).toMatchObject({ tenant: "globex", approvedBy: "user-8" });
+  });
+
+  test("the permission is no longer granted once the elevation expires", async () => {
+    const error = await run(
+      Effect.gen(function* () {
+        yield* elevate(editor, "delete:posts", "15 minutes");
+        yield* TestClock.adjust("15 minutes");
+        return yield* Effect.flip(deleteAsEditor(1));
+      }),
+    );
+
+    expect(error).toBeInstanceOf(AccessDenied);
+  });
+
+  test("expiry stops the privileged calls of a long-running effect", async () => {
+    const [created, error] = await run(
+      Effect.gen(function* () {
+        yield* elevate(viewer, "write:posts", "5 minutes");
+
+        let created = 0;
+        const post = createPost("Status update").pipe(
+          Effect.tap(() => created++),
+        );
+        const fiber = yield* Effect.fork(
+          Effect.gen(function* () {
+            yield* post;
+            yield* Effect.sleep("10 minutes");
+            // Not even a catch-all carries on past the expiry
+            yield* Effect.ignore(post);
+          }).pipe(authorize("write", "posts"), withUser(viewer)),
+        );
+        yield* TestClock.adjust("10 minutes");
+        const error = yield* Effect.flip(Fiber.join(fiber));
+        return [created, error] as const;
+      }),
+    );
+
+    expect(created).toBe(1);
+    expect(error).toBeInstanceOf(ElevationExpired);
+    expect(error).toMatchObject({
+      userId: "user-2",
+      permission: "write:posts",
+    });
+  });
+});
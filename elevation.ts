@@ -0,0 +1,199 @@
+import { Clock, Context, Duration, Effect, Layer } from "effect";
+
+// =============================================================================
+// Privilege elevation ("sudo") - one permission for a limited time
+//
+// A user requests a permission their roles lack, with a reason and for how
+// long (the TTL). Someone else approves the request, and from then until
+// the TTL runs out the authorizers (./rbac.ts) grant that permission as if
+// one of the user's roles did. A deny rule still wins over an elevation.
+//
+// Expiry goes by the Effect Clock, so TestClock drives it in tests. A
+// permission granted by an elevation is checked again before every call that
+// requires it: once the elevation has expired, the next privileged call
+// fails with ElevationExpired instead of running.
+//
+// `requestElevation` and `approveElevation` in ./rbac.ts are the entry
+// points; this module keeps track of the requests and elevations.
+// =============================================================================
+
+export interface ElevationRequest {
+  readonly id: number;
+  readonly userId: string;
+  // Elevations apply in the tenant the user requested them in
+  readonly tenant: string;
+  // "action:resource", e.g. "delete:posts"
+  readonly permission: string;
+  readonly reason: string;
+  readonly ttl: Duration.Duration;
+  // Epoch milliseconds
+  readonly requestedAt: number;
+}
+
+// An approved request. The TTL starts when it is approved.
+export interface Elevation extends ElevationRequest {
+  readonly approvedBy: string;
+  readonly approvedAt: number;
+  readonly expiresAt: number;
+}
+
+// --- Errors ---
+
+export class ElevationExpired extends Error {
+  readonly _tag = "ElevationExpired";
+  constructor(
+    readonly elevationId: number,
+    readonly userId: string,
+    readonly permission: string,
+    readonly expiredAt: number,
+  ) {
+    super(
+      `Elevation #${elevationId} of ${userId} to "${permission}" expired at ${new Date(expiredAt).toISOString()}`,
+    );
+  }
+}
+
+export class ElevationRequestNotFound extends Error {
+  readonly _tag = "ElevationRequestNotFound";
+  constructor(readonly requestId: number) {
+    super(`No pending elevation request #${requestId}`);
+  }
+}
+
+export class SelfApprovalDenied extends Error {
+  readonly _tag = "SelfApprovalDenied";
+  constructor(
+    readonly requestId: number,
+    readonly userId: string,
+  ) {
+    super(`${userId} can't approve their own elevation request #${requestId}`);
+  }
+}
+
+// The approver works in another tenant than the request was made in
+export class CrossTenantApprovalDenied extends Error {
+  readonly _tag = "CrossTenantApprovalDenied";
+  constructor(
+    readonly requestId: number,
+    readonly approverId: string,
+    readonly approverTenant: string,
+    readonly requestTenant: string,
+  ) {
+    super(
+      `${approverId} in ${approverTenant} can't approve elevation request #${requestId} of ${requestTenant}`,
+    );
+  }
+}
+
+// --- Service ---
+
+export class Elevations extends Context.Tag("@app/Elevations")<
+  Elevations,
+  {
+    readonly request: (
+      request: Omit<ElevationRequest, "id" | "requestedAt">,
+    ) => Effect.Effect<ElevationRequest>;
+    // Approving a request that was already approved fails with
+    // ElevationRequestNotFound, like an unknown one. `tenant` is the one the
+    // approver works in, which must be the request's.
+    readonly approve: (
+      requestId: number,
+      approverId: string,
+      tenant: string,
+    ) => Effect.Effect<
+      Elevation,
+      ElevationRequestNotFound | SelfApprovalDenied | CrossTenantApprovalDenied
+    >;
+    // The unexpired elevation of a user to a permission in a tenant, if any
+    readonly active: (
+      userId: string,
+      tenant: string,
+      permission: string,
+    ) => Effect.Effect<Elevation | undefined>;
+  }
+>() {}
+
+export const hasExpired = (elevation: Elevation, now: number) =>
+  now >= elevation.expiresAt;
+
+// Fails with ElevationExpired once the elevation has expired
+export const checkNotExpired = (elevation: Elevation) =>
+  Effect.flatMap(Clock.currentTimeMillis, (now) =>
+    hasExpired(elevation, now)
+      ? Effect.fail(
+          new ElevationExpired(
+            elevation.id,
+            elevation.userId,
+            elevation.permission,
+            elevation.expiresAt,
+          ),
+        )
+      : Effect.void,
+  );
+
+export const makeInMemoryElevations = Effect.sync(() => {
+  const pending = new Map<number, ElevationRequest>();
+  const approved: Array<Elevation> = [];
+  let nextId = 1;
+
+  return Elevations.of({
+    request: (request) =>
+      Effect.gen(function* () {
+        const requestedAt = yield* Clock.currentTimeMillis;
+        const pendingRequest = { ...request, id: nextId++, requestedAt };
+        pending.set(pendingRequest.id, pendingRequest);
+        return pendingRequest;
+      }),
+
+    approve: (requestId, approverId, tenant) =>
+      Effect.gen(function* () {
+        const request = pending.get(requestId);
+        if (!request) {
+          return yield* Effect.fail(new ElevationRequestNotFound(requestId));
+        }
+        // Four eyes: the approver must be someone else
+        if (request.userId === approverId) {
+          return yield* Effect.fail(
+            new SelfApprovalDenied(requestId, approverId),
+          );
+        }
+        // An admin only raises privileges in the tenant they work in
+        if (request.tenant !== tenant) {
+          return yield* Effect.fail(
+            new CrossTenantApprovalDenied(
+              requestId,
+              approverId,
+              tenant,
+              request.tenant,
+            ),
+          );
+        }
+        const approvedAt = yield* Clock.currentTimeMillis;
+        const elevation: Elevation = {
+          ...request,
+          approvedBy: approverId,
+          approvedAt,
+          expiresAt: approvedAt + Duration.toMillis(request.ttl),
+        };
+        pending.delete(requestId);
+        approved.push(elevation);
+        return elevation;
+      }),
+
+    active: (userId, tenant, permission) =>
+      Effect.map(Clock.currentTimeMillis, (now) =>
+        approved.find(
+          (elevation) =>
+            elevation.userId === userId &&
+            elevation.tenant === tenant &&
+            elevation.permission === permission &&
+            !hasExpired(elevation, now),
+        ),
+      ),
+  });
+});
+
+export const InMemoryElevations = Layer.effect(
+  Elevations,
+  makeInMemoryElevations,
+);
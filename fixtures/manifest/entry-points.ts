@@ -0,0 +1,16 @@
+import { Effect } from "effect";
+import type { Requires } from "../../rbac.ts";
+
+// Entry points for ./rbac-manifest.test.ts: one needing a permission no
+// role grants, one whose roles differ in globex
+export const launchRockets = (): Effect.Effect<
+  void,
+  never,
+  Requires<"launch", "rockets">
+> => Effect.void;
+
+export const renameUser = (): Effect.Effect<
+  void,
+  never,
+  Requires<"write", "users">
+> => Effect.void;
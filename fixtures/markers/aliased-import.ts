@@ -0,0 +1,8 @@
+import { Effect as E } from "effect";
+import { Tenant } from "../../rbac.ts";
+import { readUsers } from "./read-users.ts";
+
+// Effect.provideService under another name, a hand-made Tenant behind a cast
+export const forged = readUsers.pipe(
+  E.provideService(Tenant, { id: "globex" } as never),
+);
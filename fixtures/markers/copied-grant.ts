@@ -0,0 +1,20 @@
+import { Context, Effect } from "effect";
+import { CosmosClient } from "../../cosmos.ts";
+import type { Requires } from "../../rbac.ts";
+
+// Second tags with the keys of real permissions: the "read:users" grant
+// authorizeAll minted is read back and provided as "write:users"
+const readTag = Context.GenericTag<Requires<"read", "users">, object>(
+  "@rbac/read:users",
+);
+const writeTag = Context.GenericTag<Requires<"write", "users">, never>(
+  "@rbac/write:users",
+);
+
+export const forged = Effect.gen(function* () {
+  const grant = yield* readTag;
+  const cosmos = yield* CosmosClient;
+  return yield* cosmos
+    .upsertDocument({ id: "user-1" }, { container: "users" })
+    .pipe(Effect.provideService(writeTag, grant as never));
+});
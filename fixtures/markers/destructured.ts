@@ -0,0 +1,8 @@
+import { Effect } from "effect";
+import { Tenant } from "../../rbac.ts";
+import { readUsers } from "./read-users.ts";
+
+// Effect.provideService pulled out of the namespace
+const { provideService: give } = Effect;
+
+export const forged = readUsers.pipe(give(Tenant, { id: "globex" } as never));
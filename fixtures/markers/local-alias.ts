@@ -0,0 +1,10 @@
+import { Effect, Layer } from "effect";
+import { Tenant } from "../../rbac.ts";
+import { readUsers } from "./read-users.ts";
+
+// Layer.succeed through a local variable
+const give = Layer.succeed;
+
+export const forged = readUsers.pipe(
+  Effect.provide(give(Tenant, { id: "globex" } as never)),
+);
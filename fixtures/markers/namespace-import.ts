@@ -0,0 +1,8 @@
+import * as Provide from "effect/Effect";
+import { Tenant } from "../../rbac.ts";
+import { readUsers } from "./read-users.ts";
+
+// Effect.provideService from its own module
+export const forged = readUsers.pipe(
+  Provide.provideService(Tenant, { id: "globex" } as never),
+);
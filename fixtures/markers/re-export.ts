@@ -0,0 +1,3 @@
+// Effect.provideService re-exported under another name, used by
+// ./re-exported.ts
+export { provideService as give } from "effect/Effect";
@@ -0,0 +1,6 @@
+import { Tenant } from "../../rbac.ts";
+import { give } from "./re-export.ts";
+import { readUsers } from "./read-users.ts";
+
+// Effect.provideService imported from a module that re-exports it
+export const forged = readUsers.pipe(give(Tenant, { id: "globex" } as never));
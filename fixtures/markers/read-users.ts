@@ -0,0 +1,8 @@
+import { Effect } from "effect";
+import { CosmosClient } from "../../cosmos.ts";
+
+// What every fixture runs with its forged marker: a read of the "users"
+// container, which needs the permission and a Tenant
+export const readUsers = Effect.flatMap(CosmosClient, (cosmos) =>
+  cosmos.query("SELECT * FROM c", { container: "users" }),
+);
@@ -0,0 +1,8 @@
+import { Effect } from "effect";
+import { Tenant } from "../../rbac.ts";
+import { readUsers } from "./read-users.ts";
+
+// Rewrites the Tenant authenticate provided: a copy with another id
+export const forged = readUsers.pipe(
+  Effect.updateService(Tenant, (tenant) => ({ ...tenant, id: "globex" })),
+);
@@ -0,0 +1,403 @@
+import { describe, expect, test } from "bun:test";
+import { Effect, Either, Option } from "effect";
+import { AuditLog } from "./audit-log.ts";
+import { CosmosClient, DocumentDecodeError } from "./cosmos.ts";
+import {
+  doSomethingComplex,
+  getUserOrFail,
+  orchestrate,
+  User,
+  UserNotFound,
+  Users,
+} from "./index.ts";
+import { Mutex } from "./mutex.ts";
+import { RateLimited } from "./rate-limiter.ts";
+import { asPlatformAdmin, authorize, authorizeAll } from "./rbac.ts";
+import {
+  assertBetween,
+  assertInOrder,
+  begin,
+  commit,
+  cosmosCall,
+  grantAll,
+  locked,
+  rollback,
+  TestKit,
+  type TestKitOptions,
+  type TestKitServices,
+  timelineEvents,
+  unlocked,
+  withUser,
+} from "./test-kit.ts";
+import { Transaction } from "./transaction.ts";
+
+// The scenarios of the `main` in ./index.ts, against the test kit
+
+const seeded: TestKitOptions = {
+  cosmos: {
+    containers: {
+      users: { partitionKey: "/id", schema: User },
+      counters: { partitionKey: "/id" },
+    },
+    seed: {
+      acme: {
+        users: [
+          { id: "user-123", name: "Alice", email: "alice@acme.example" },
+          { id: "user-456", name: "Bob", email: "bob@acme.example" },
+        ],
+      },
+      globex: {
+        users: [
+          {
+            id: "user-123",
+            name: "Globex's Alice",
+            email: "alice@globex.example",
+          },
+        ],
+      },
+    },
+  },
+};
+
+const run = <A, E>(
+  effect: Effect.Effect<A, E, TestKitServices>,
+  options: TestKitOptions = seeded,
+) => effect.pipe(Effect.provide(TestKit(options)), Effect.runPromise);
+
+const asAlice = withUser({ id: "user-123", roles: ["editor"] });
+
+describe("index.ts main", () => {
+  test("doSomethingComplex reads and writes the user in one transaction", async () => {
+    const [result, events] = await run(
+      Effect.gen(function* () {
+        const result = yield* doSomethingComplex("user-123").pipe(
+          Transaction.commit,
+          authorizeAll("read:users", "write:users"),
+          asAlice,
+        );
+        yield* assertInOrder(
+          begin,
+          { _tag: "RateLimitAcquired", key: "user-123" },
+          cosmosCall("getDocument", { documentId: "user-123" }),
+          cosmosCall("upsertDocument", { documentId: "user-123" }),
+          commit,
+        );
+        return [result, yield* timelineEvents] as const;
+      }),
+    );
+
+    expect(result).toBe("user-123");
+    const calls = events.filter((e) => e._tag === "CosmosCalled");
+    expect(new Set(calls.map((c) => c.transactionId)).size).toBe(1);
+    expect(calls.every((c) => c.userId === "user-123")).toBe(true);
+    expect(calls.every((c) => c.tenant === "acme")).toBe(true);
+  });
+
+  test("orchestrate upserts the counter inside the transaction while locked", async () => {
+    await run(
+      Effect.gen(function* () {
+        const result = yield* orchestrate("user-456").pipe(
+          Mutex.release,
+          Transaction.commit,
+          grantAll("read:users", "write:users", "write:counters"),
+          asAlice,
+        );
+        expect(result).toBe("user-456");
+
+        const upsert = cosmosCall("upsertDocument", {
+          container: "counters",
+          locks: ["default"],
+        });
+        yield* assertBetween(upsert, { after: locked, before: unlocked });
+        yield* assertBetween(upsert, { after: begin, before: commit });
+        // Unlocked before the transaction commits
+        yield* assertInOrder(locked, upsert, unlocked, commit);
+      }),
+    );
+  });
+
+  test("reading a missing user fails with UserNotFound and rolls back", async () => {
+    const error = await run(
+      Effect.gen(function* () {
+        const error = yield* getUserOrFail("user-does-not-exist").pipe(
+          Transaction.commit,
+          authorize("read", "users"),
+          asAlice,
+          Effect.flip,
+        );
+        yield* assertInOrder(
+          begin,
+          cosmosCall("getDocument", { documentId: "user-does-not-exist" }),
+          rollback,
+        );
+        return error;
+      }),
+    );
+
+    expect(error).toBeInstanceOf(UserNotFound);
+  });
+
+  test("a failed savepoint only undoes its own writes", async () => {
+    const [after, events] = await run(
+      Effect.gen(function* () {
+        const after = yield* Effect.gen(function* () {
+          yield* Users.upsert({ id: "user-123", name: "Alice (kept)" });
+          yield* Users.upsert({
+            id: "user-123",
+            name: "Alice (rolled back)",
+          }).pipe(
+            Effect.zipRight(Effect.fail(new UserNotFound("user-999"))),
+            Transaction.commit,
+            Effect.ignore,
+          );
+          return yield* Users.get("user-123");
+        }).pipe(
+          Transaction.commitWith({ isolation: "Serializable" }),
+          authorizeAll("read:users", "write:users"),
+          asAlice,
+        );
+        return [after, yield* timelineEvents] as const;
+      }),
+    );
+
+    expect(after?.name).toBe("Alice (kept)");
+    const [kept, undone] = events.filter(
+      (e) => e._tag === "CosmosCalled" && e.method === "upsertDocument",
+    );
+    expect(kept).not.toHaveProperty("savepoint");
+    expect(undone).toHaveProperty("savepoint");
+    expect(events).toContainEqual(
+      expect.objectContaining({
+        _tag: "TransactionBegan",
+        isolation: "Serializable",
+      }),
+    );
+  });
+
+  test("a user that doesn't match the schema fails with DocumentDecodeError", async () => {
+    const error = await run(
+      getUserOrFail("user-789").pipe(
+        Transaction.commit,
+        authorize("read", "users"),
+        asAlice,
+        Effect.flip,
+      ),
+      {
+        cosmos: {
+          ...seeded.cosmos!,
+          seed: { acme: { users: [{ id: "user-789", name: 42 }] } },
+        },
+      },
+    );
+
+    expect(error).toBeInstanceOf(DocumentDecodeError);
+    expect(error).toMatchObject({ container: "users", id: "user-789" });
+    expect(error.message).toContain('["name"]');
+  });
+
+  test("a user stored without a restricted field reads without it, whoever reads", async () => {
+    const readAs = (role: string) =>
+      Users.get("user-789").pipe(
+        Transaction.commit,
+        authorize("read", "users"),
+        withUser({ id: "user-1", roles: [role] }),
+      );
+
+    const users = await run(Effect.all([readAs("viewer"), readAs("admin")]), {
+      cosmos: {
+        ...seeded.cosmos!,
+        seed: { acme: { users: [{ id: "user-789", name: "Carol" }] } },
+      },
+    });
+
+    for (const user of users) {
+      expect(user).toMatchObject({ id: "user-789", name: "Carol" });
+      expect(user).not.toHaveProperty("email");
+    }
+  });
+
+  test("the stored user has accessedAt as a string, read back as a Date", async () => {
+    const [stored, user] = await run(
+      Effect.gen(function* () {
+        yield* doSomethingComplex("user-123");
+        const cosmos = yield* CosmosClient;
+        return [
+          yield* cosmos.getDocument("user-123", { container: "users" }),
+          yield* Users.get("user-123"),
+        ] as const;
+      }).pipe(
+        Transaction.commit,
+        authorizeAll("read:users", "write:users"),
+        asAlice,
+      ),
+    );
+
+    expect(typeof stored?.accessedAt).toBe("string");
+    expect(user?.accessedAt).toBeInstanceOf(Date);
+  });
+
+  test("the same user reads differently for a viewer, an editor and an admin", async () => {
+    const readAs = (role: string) =>
+      Users.get("user-456").pipe(
+        Transaction.commit,
+        authorize("read", "users"),
+        withUser({ id: "user-1", roles: [role] }),
+      );
+
+    const [viewer, editor, admin] = await run(
+      Effect.gen(function* () {
+        // Alice can't see Bob's email, so she writes him back without it
+        yield* doSomethingComplex("user-456").pipe(
+          Transaction.commit,
+          authorizeAll("read:users", "write:users"),
+          asAlice,
+        );
+        return [
+          yield* readAs("viewer"),
+          yield* readAs("editor"),
+          yield* readAs("admin"),
+        ] as const;
+      }),
+    );
+
+    const fields = (user: object | undefined) =>
+      Object.keys(user ?? {})
+        .filter((field) => !field.startsWith("_"))
+        .sort();
+    expect(fields(viewer)).toEqual(["id", "name"]);
+    expect(fields(editor)).toEqual(["accessedAt", "id", "name"]);
+    expect(fields(admin)).toEqual(["accessedAt", "email", "id", "name"]);
+    expect(admin?.email).toBe("bob@acme.example");
+  });
+
+  test("the client's own reads leave out the restricted fields too", async () => {
+    const [viewer, admin] = await run(
+      Effect.gen(function* () {
+        const readRaw = (role: string) =>
+          Effect.flatMap(CosmosClient, (cosmos) =>
+            Effect.all([
+              cosmos.getDocument("user-456", { container: "users" }),
+              cosmos.query("SELECT * FROM c ORDER BY c.id", {
+                container: "users",
+              }),
+              // What can't be read can't be filtered on either
+              cosmos.query("SELECT * FROM c WHERE c.email = @email", {
+                container: "users",
+                parameters: { "@email": "bob@acme.example" },
+              }),
+            ]),
+          ).pipe(
+            Transaction.commit,
+            authorize("read", "users"),
+            withUser({ id: "user-1", roles: [role] }),
+          );
+        return [yield* readRaw("viewer"), yield* readRaw("admin")] as const;
+      }),
+    );
+
+    const [got, all, byEmail] = viewer;
+    expect(got).not.toHaveProperty("email");
+    expect(all.map((user) => "email" in user)).toEqual([false, false]);
+    expect(byEmail).toEqual([]);
+    expect(admin[0]?.email).toBe("bob@acme.example");
+    expect(admin[2].map((user) => user.id)).toEqual(["user-456"]);
+  });
+
+  test("queries leave out the restricted fields too", async () => {
+    const users = await run(
+      Users.query("SELECT * FROM c ORDER BY c.name").pipe(
+        Transaction.commit,
+        authorize("read", "users"),
+        withUser({ id: "user-1", roles: ["viewer"] }),
+      ),
+    );
+
+    expect(users.map(({ id, name }) => ({ id, name }))).toEqual([
+      { id: "user-123", name: "Alice" },
+      { id: "user-456", name: "Bob" },
+    ]);
+    expect(users.some((user) => "email" in user)).toBe(false);
+  });
+
+  test("another tenant's data needs asPlatformAdmin, which editors lack", async () => {
+    const crossTenant = (roles: ReadonlyArray<string>) =>
+      getUserOrFail("user-123").pipe(
+        asPlatformAdmin("globex", "SUP-42: checking a customer's record"),
+        Transaction.commit,
+        authorize("read", "users"),
+        withUser({ id: "user-123", roles }),
+        Effect.either,
+      );
+
+    const [denied, granted] = await run(
+      Effect.gen(function* () {
+        const denied = yield* crossTenant(["editor"]);
+        yield* assertInOrder({
+          _tag: "CrossTenantDenied",
+          fromTenant: "acme",
+          toTenant: "globex",
+        });
+        const granted = yield* crossTenant(["platform-admin"]);
+        yield* assertInOrder(
+          { _tag: "CrossTenantGranted", toTenant: "globex" },
+          cosmosCall("getDocument", { tenant: "globex" }),
+        );
+        return [denied, granted] as const;
+      }),
+    );
+
+    expect(Either.getLeft(denied).pipe(Option.getOrThrow)).toMatchObject({
+      _tag: "AccessDenied",
+      permissions: ["access:tenants"],
+    });
+    expect(Either.getOrThrow(granted)).toEqual({
+      id: "user-123",
+      name: "Globex's Alice",
+    });
+  });
+
+  test("everything Alice did is in the audit log", async () => {
+    const tags = await run(
+      Effect.gen(function* () {
+        yield* doSomethingComplex("user-123").pipe(
+          Transaction.commit,
+          authorizeAll("read:users", "write:users"),
+          asAlice,
+        );
+        const audit = yield* AuditLog;
+        const entries = yield* audit.query({ userId: "user-123" });
+        return entries.map((entry) => entry.event._tag);
+      }),
+    );
+
+    expect(tags).toEqual([
+      "AuthSucceeded",
+      "PermissionGranted",
+      "PermissionGranted",
+      "DocumentWritten",
+    ]);
+  });
+
+  test("a user out of rate limit slots gets RateLimited", async () => {
+    const error = await run(
+      Effect.gen(function* () {
+        const read = getUserOrFail("user-456").pipe(
+          Transaction.commit,
+          authorize("read", "users"),
+          asAlice,
+        );
+        yield* read;
+        const error = yield* Effect.flip(read);
+        yield* assertInOrder(
+          { _tag: "RateLimitAcquired", key: "user-123" },
+          { _tag: "RateLimitRejected", key: "user-123" },
+          rollback,
+        );
+        return error;
+      }),
+      { ...seeded, rateLimiter: { limit: 1 } },
+    );
+
+    expect(error).toBeInstanceOf(RateLimited);
+  });
+});
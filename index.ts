@@ -1,335 +1,384 @@
-import { Context, Effect, Layer } from "effect";
+import { Effect, Layer, Schema } from "effect";
+import { AuditLog, InMemoryAuditLog } from "./audit-log.ts";
+import { JwtAuthProvider, signJwt } from "./auth-provider.ts";
+import { CosmosClient, InMemoryCosmos, restricted } from "./cosmos.ts";
+import { Mutex, MutexLive } from "./mutex.ts";
+import { InMemoryEventBroker, Outbox, OutboxLive } from "./outbox.ts";
+import { InMemoryElevations } from "./elevation.ts";
+import { FilePolicySource } from "./policy-source.ts";
+import { RateLimiter, TokenBucketRateLimiter } from "./rate-limiter.ts";
+import {
+  asPlatformAdmin,
+  authenticate,
+  authorize,
+  authorizeAll,
+} from "./rbac.ts";
+import { OtlpFileTelemetry } from "./telemetry.ts";
+import { Transaction } from "./transaction.ts";
 
 // =============================================================================
 // Services are declared in types - the compiler knows about ALL dependencies
 // =============================================================================
 
-// Transaction is a pure semantic marker - no methods, just a type requirement
-// If your function requires Transaction, it means you're inside a transaction
-class Transaction extends Context.Tag("@app/Transaction")<Transaction, {}>() {
-  // commit wraps an effect and provides the Transaction context
-  static commit<A, E, R>(effect: Effect.Effect<A, E, R>) {
-    return Effect.gen(function* () {
-      console.log("[Transaction] BEGIN");
-      const result = yield* effect.pipe(
-        Effect.provide(Layer.succeed(Transaction, {})),
-      );
-      console.log("[Transaction] COMMIT");
-      return result;
-    });
-  }
-}
+// Transaction lives in ./transaction.ts - Transaction.commit provides it,
+// rolls back on failure or interruption, and nests as savepoints.
 
-// LoggedInUser is a semantic marker that ALSO carries data (the user)
-// If your function requires LoggedInUser, auth has been verified
-class LoggedInUser extends Context.Tag("@app/LoggedInUser")<
-  LoggedInUser,
-  { readonly id: string; readonly email: string; readonly role: string }
->() {}
-
-// WriteAccess is DERIVED from LoggedInUser - it's a semantic marker that
-// means the user's role has been checked and they can perform writes.
-// Functions requiring WriteAccess need both auth AND write permission.
-class WriteAccess extends Context.Tag("@app/WriteAccess")<WriteAccess, {}>() {}
-
-// Auth errors
-class Unauthenticated extends Error {
-  readonly _tag = "Unauthenticated";
-  constructor() {
-    super("Not authenticated");
-  }
-}
+// LoggedInUser lives in ./auth.ts - `authenticate` (./rbac.ts) provides it,
+// derived from the same CurrentUser the authorizers check permissions for.
 
-class Forbidden extends Error {
-  readonly _tag = "Forbidden";
-  constructor(readonly role: string) {
-    super(`Role "${role}" does not have write access`);
-  }
-}
+// Tenant lives in ./rbac.ts - `authenticate` provides the tenant of the
+// user's token; only `asPlatformAdmin` can switch to another one.
 
-// checkAuthOrFail wraps an effect and provides LoggedInUser or fails
-function checkAuthOrFail<A, E, R>(effect: Effect.Effect<A, E, R>) {
-  return Effect.gen(function* () {
-    // In real code, this would check a token/session
-    const token = process.env.AUTH_TOKEN;
-    if (!token) {
-      return yield* Effect.fail(new Unauthenticated());
-    }
+// RateLimiter lives in ./rate-limiter.ts - acquiring a slot can fail with
+// RateLimited, keyed by the LoggedInUser.
 
-    console.log("[Auth] Verified user from token");
-    const user = { id: "user-123", email: "alice@example.com", role: "editor" };
+// CosmosClient lives in ./cosmos.ts - reads require Transaction +
+// LoggedInUser + Tenant + Requires<"read", container>, writes require
+// Requires<"write", container> instead. `authorize` grants both. Every call
+// only sees the documents of the current Tenant.
 
-    // Provide the LoggedInUser to the wrapped effect
-    return yield* effect.pipe(
-      Effect.provide(Layer.succeed(LoggedInUser, user)),
-    );
-  });
-}
+// Mutex and its Locked marker live in ./mutex.ts - acquiring requires
+// Locked + Scope, and Mutex.release resolves both by unlocking at the end.
 
-// checkWriteAccessOrFail DERIVES WriteAccess from LoggedInUser
-// It reads the user's role and either grants WriteAccess or fails with Forbidden
-function checkWriteAccessOrFail<A, E, R>(effect: Effect.Effect<A, E, R>) {
-  return Effect.gen(function* () {
-    const user = yield* LoggedInUser;
-
-    if (user.role !== "admin" && user.role !== "editor") {
-      return yield* Effect.fail(new Forbidden(user.role));
-    }
+// Outbox lives in ./outbox.ts - emitting an event requires Transaction, and
+// the event is only dispatched once that transaction commits.
 
-    console.log(`[WriteAccess] Granted for ${user.email} (role: ${user.role})`);
-
-    // Provide WriteAccess to the wrapped effect
-    return yield* effect.pipe(Effect.provide(Layer.succeed(WriteAccess, {})));
-  });
-}
-
-// Rate limiter - consuming a rate limit slot is tracked in types
-class RateLimiter extends Context.Tag("@app/RateLimiter")<
-  RateLimiter,
-  {
-    readonly acquire: Effect.Effect<void>;
-  }
->() {}
-
-// Cosmos client - methods REQUIRE Transaction AND LoggedInUser
-// upsertDocument ALSO requires WriteAccess (derived from user's role)
-class CosmosClient extends Context.Tag("@app/CosmosClient")<
-  CosmosClient,
-  {
-    // Read: requires Transaction + LoggedInUser
-    readonly getDocument: (
-      id: string,
-    ) => Effect.Effect<unknown, never, Transaction | LoggedInUser>;
-    // Write: requires Transaction + LoggedInUser + WriteAccess!
-    readonly upsertDocument: (
-      doc: unknown,
-    ) => Effect.Effect<void, never, Transaction | LoggedInUser | WriteAccess>;
-  }
->() {}
-
-// Semantic only marker that a resource is locked
-class Locked extends Context.Tag("@app/Locked")<Locked, {}>() {}
+// =============================================================================
+// Documents have schemas - the containers are typed too
+// =============================================================================
 
-// A mutex service - holding a lock is type-tracked
-class Mutex extends Context.Tag("@app/Mutex")<
-  Mutex,
-  {
-    readonly acquire: Effect.Effect<void, never, Locked>;
-  }
->() {
-  declare static readonly release: <A, E, R>(
-    effect: Effect.Effect<A, E, R>,
-  ) => Effect.Effect<A, E, Exclude<R, Locked>>;
-}
+// Stored as JSON, so `accessedAt` is an ISO string in Cosmos and a Date here.
+// Restricted fields need "read:users.<field>" on top of "read:users":
+// editors see when a user was last accessed, only admins see their email.
+export const User = Schema.Struct({
+  id: Schema.String,
+  name: Schema.String,
+  email: restricted(Schema.String),
+  accessedAt: restricted(Schema.optionalWith(Schema.Date, { exact: true })),
+});
+
+export const Counter = Schema.Struct({
+  id: Schema.String,
+  value: Schema.Number,
+});
+
+// Reads decode (a document that doesn't match fails with DocumentDecodeError),
+// writes encode. The container name is still in the requirements.
+// Reads leave out the restricted fields the user isn't granted, so they are
+// optional in what Users.get returns.
+export const Users = CosmosClient.container("users", User);
+export const Counters = CosmosClient.container("counters", Counter);
 
 // =============================================================================
 // Look at these function signatures - EVERYTHING is visible in the type!
 // =============================================================================
 
 // This function talks to Cosmos, which requires Transaction AND LoggedInUser
-// Both requirements bubble up!
-function getAndUpdateUser(userId: string) {
+// AND Tenant AND permission on the "users" container. All requirements bubble up!
+export function getAndUpdateUser(userId: string) {
   return Effect.gen(function* () {
-    const cosmos = yield* CosmosClient;
-    const user = yield* cosmos.getDocument(userId);
-    yield* cosmos.upsertDocument({
-      ...(user as object),
-      accessedAt: new Date(),
+    const user = yield* Users.get(userId);
+    if (!user) {
+      return yield* Effect.fail(new UserNotFound(userId));
+    }
+    // ifMatch: fail with PreconditionFailed if it changed since we read it.
+    // A field redacted from `user` keeps its stored value.
+    const accessedAt = new Date();
+    yield* Users.upsert({ ...user, accessedAt }, { ifMatch: user._etag });
+    // Dispatched after COMMIT - never if this transaction rolls back
+    yield* Outbox.emit({
+      _tag: "UserAccessed",
+      userId: user.id,
+      accessedAt: accessedAt.getTime(),
     });
     return user;
   });
 }
-// Type: (userId: string) => Effect<unknown, never, CosmosClient | Transaction | LoggedInUser | WriteAccess>
-//                                                               ^^^^^^^^^^^   ^^^^^^^^^^^^   ^^^^^^^^^^^
-//                                                  All requirements bubble up! (WriteAccess from upsert)
+// Type: (userId: string) => Effect<Stored<Redacted<User, "email" | "accessedAt">>, UserNotFound | DocumentDecodeError | DocumentEncodeError | PreconditionFailed, Outbox | CosmosClient | Transaction | LoggedInUser | Tenant | Requires<"read", "users"> | Requires<"write", "users">>
+//                                                               ^^^^^^^^^^^   ^^^^^^^^^^^^   ^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^
+//                                                  All requirements bubble up! (write permission from upsert)
 
 // This function consumes rate limit AND requires transaction + auth (via cosmos)
-function doSomethingComplex(userId: string) {
+export function doSomethingComplex(userId: string) {
   return Effect.gen(function* () {
     const rateLimiter = yield* RateLimiter;
     yield* rateLimiter.acquire;
 
     const user = yield* getAndUpdateUser(userId);
 
-    return user as string;
+    return user.id;
   });
 }
-// Type: (userId: string) => Effect<string, never, RateLimiter | CosmosClient | Transaction | LoggedInUser | WriteAccess>
+// Type: (userId: string) => Effect<string, RateLimited | UserNotFound | DocumentDecodeError | DocumentEncodeError | PreconditionFailed, RateLimiter | Outbox | CosmosClient | Transaction | LoggedInUser | Tenant | Requires<"read", "users"> | Requires<"write", "users">>
 
 // This function holds a mutex
-function doSomethingWithMutex() {
+export function doSomethingWithMutex() {
   return Effect.gen(function* () {
     const mutex = yield* Mutex;
     yield* mutex.acquire;
 
-    const cosmos = yield* CosmosClient;
-    yield* cosmos.upsertDocument({ counter: 1 });
+    yield* Counters.upsert({ id: "counter", value: 1 });
 
     return "done";
   });
 }
-// Type: () => Effect<string, never, Mutex | CosmosClient | Transaction | LoggedInUser | WriteAccess | Scope>
+// Type: () => Effect<string, MutexTimeout | DocumentEncodeError | PreconditionFailed, Mutex | Locked | Scope | CosmosClient | Transaction | LoggedInUser | Tenant | Requires<"write", "counters">>
 
 // =============================================================================
 // Even ERRORS are in the type system!
 // =============================================================================
 
-class UserNotFound extends Error {
+export class UserNotFound extends Error {
   readonly _tag = "UserNotFound";
   constructor(readonly userId: string) {
     super(`User not found: ${userId}`);
   }
 }
 
-function getUserOrFail(userId: string) {
+export function getUserOrFail(userId: string) {
   return Effect.gen(function* () {
     const rateLimiter = yield* RateLimiter;
     yield* rateLimiter.acquire;
 
-    const cosmos = yield* CosmosClient;
-    const user = yield* cosmos.getDocument(userId);
+    const user = yield* Users.get(userId);
 
     if (!user) {
       return yield* Effect.fail(new UserNotFound(userId));
     }
 
-    return user as { id: string; name: string };
+    return { id: user.id, name: user.name }; // name is a string, decoded
   });
 }
-// Type: (userId: string) => Effect<{id: string, name: string}, UserNotFound, RateLimiter | CosmosClient | Transaction | LoggedInUser>
-// Note: NO WriteAccess needed here - getUserOrFail only READS (getDocument), never writes!
+// Type: (userId: string) => Effect<{id: string, name: string}, RateLimited | UserNotFound | DocumentDecodeError, RateLimiter | CosmosClient | Transaction | LoggedInUser | Tenant | Requires<"read", "users">>
+// Note: NO write permission needed here - getUserOrFail only READS (Users.get), never writes!
 
 // =============================================================================
 // Composing functions - dependencies automatically merge
 // =============================================================================
 
-function orchestrate(userId: string) {
+export function orchestrate(userId: string) {
   return Effect.gen(function* () {
     const result = yield* doSomethingComplex(userId);
     yield* doSomethingWithMutex();
     return result;
   });
 }
-// Type: (userId: string) => Effect<string, never, RateLimiter | CosmosClient | Transaction | LoggedInUser | WriteAccess | Mutex | Scope>
+// Type: (userId: string) => Effect<string, RateLimited | UserNotFound | DocumentDecodeError | DocumentEncodeError | PreconditionFailed | MutexTimeout, RateLimiter | Outbox | CosmosClient | Transaction | LoggedInUser | Tenant | Requires<"read", "users"> | Requires<"write", "users"> | Requires<"write", "counters"> | Mutex | Locked | Scope>
 
 // =============================================================================
 // The magic: provide implementations at the edge
 // =============================================================================
 
-const ProductionRateLimiter = Layer.succeed(
-  RateLimiter,
-  RateLimiter.of({
-    acquire: Effect.sync(() => {
-      console.log("[RateLimit] Acquired slot");
+// 5 requests per user in a burst, then one more every second
+const ProductionRateLimiter = TokenBucketRateLimiter({
+  capacity: 5,
+  refill: 1,
+  interval: "1 second",
+});
+
+const ProductionCosmos = InMemoryCosmos({
+  containers: {
+    // With its schema, even raw CosmosClient reads of "users" are redacted
+    users: { partitionKey: "/id", schema: User },
+    counters: { partitionKey: "/id" },
+  },
+  // Per tenant: acme's users are invisible to globex and the other way round
+  seed: {
+    acme: {
+      users: [
+        { id: "user-123", name: "Alice", email: "alice@acme.example" },
+        { id: "user-456", name: "Bob", email: "bob@acme.example" },
+      ],
+    },
+    globex: {
+      users: [
+        {
+          id: "user-123",
+          name: "Globex's Alice",
+          email: "alice@globex.example",
+        },
+      ],
+    },
+  },
+});
+
+const ProductionMutex = MutexLive({ timeout: "5 seconds", fair: true });
+
+const ProductionAuth = JwtAuthProvider({
+  secret: "demo-secret",
+  issuer: "effect-demo",
+  audience: "effect-demo",
+});
+
+// Roles from ./policy.yaml, reloaded when it changes
+const ProductionPolicy = FilePolicySource({
+  path: process.env.POLICY_FILE ?? `${import.meta.dir}/policy.yaml`,
+});
+
+// Domain events go to a local broker; a real one would forward them
+const ProductionOutbox = OutboxLive().pipe(
+  Layer.provide(
+    InMemoryEventBroker({
+      UserAccessed: [
+        (event) =>
+          Effect.sync(() =>
+            console.log(`[Events] ${event.userId} was accessed`),
+          ),
+      ],
     }),
-  }),
-);
-
-const ProductionCosmos = Layer.succeed(
-  CosmosClient,
-  CosmosClient.of({
-    getDocument: (id) =>
-      Effect.gen(function* () {
-        yield* Transaction; // Must be in transaction!
-        const user = yield* LoggedInUser; // Must be authenticated!
-        console.log(`[Cosmos] Get: ${id} (as ${user.email})`);
-        return { id, name: "Alice" };
-      }),
-    upsertDocument: (doc) =>
-      Effect.gen(function* () {
-        yield* Transaction;
-        const user = yield* LoggedInUser;
-        yield* WriteAccess; // Must have write permission!
-        console.log(
-          `[Cosmos] Upsert (as ${user.email}, role: ${user.role}):`,
-          doc,
-        );
-      }),
-  }),
-);
-
-const ProductionMutex = Layer.effect(
-  Mutex,
-  Effect.sync(() =>
-    Mutex.of({ acquire: Effect.sync(() => console.log("[Mutex] Acquired")) }),
   ),
 );
 
+// Spans and metrics as OTLP/JSON, one export request per line
+const ProductionTelemetry = OtlpFileTelemetry({
+  path: process.env.OTLP_FILE ?? "telemetry.otlp.jsonl",
+  serviceName: "effect-demo",
+});
+
 const ProductionLayer = Layer.mergeAll(
+  ProductionAuth,
   ProductionRateLimiter,
   ProductionCosmos,
   ProductionMutex,
-);
+  ProductionPolicy,
+  InMemoryElevations, // "sudo" grants, see requestElevation in ./rbac.ts
+  ProductionOutbox,
+  ProductionTelemetry,
+).pipe(Layer.provideMerge(InMemoryAuditLog)); // Cosmos records its writes too
 
 // =============================================================================
-// Run it - must wrap in checkAuthOrFail, checkWriteAccessOrFail, AND Transaction.commit
+// Run it - must wrap in authenticate, authorize, AND Transaction.commit
 // =============================================================================
 
 const main = Effect.gen(function* () {
   console.log(
-    "\n--- Running doSomethingComplex (with auth + write access + transaction) ---",
+    "\n--- Running doSomethingComplex (with auth + permissions + transaction) ---",
   );
-  // Must provide auth, write access, AND transaction
+  // Must provide auth, permissions on "users", AND transaction
   const result = yield* doSomethingComplex("user-123").pipe(
     Transaction.commit,
-    // checkAuthOrFail,
-    checkWriteAccessOrFail, // derives WriteAccess from LoggedInUser
-    // checkAuthOrFail is applied at the top level (see below)
+    authorizeAll("read:users", "write:users"), // checked against CurrentUser
+    // authenticate is applied at the top level (see below)
   );
   console.log("Result:", result);
 
   console.log(
-    "\n--- Running orchestrate (with auth + write access + transaction + mutex) ---",
+    "\n--- Running orchestrate (with auth + permissions + transaction + mutex) ---",
   );
   const orchestrated = yield* orchestrate("user-456").pipe(
     Mutex.release,
     Transaction.commit,
-    checkWriteAccessOrFail, // derives WriteAccess from LoggedInUser
-    // checkAuthOrFail is applied at the top level (see below)
+    authorizeAll("read:users", "write:users", "write:counters"),
+    // authenticate is applied at the top level (see below)
   );
   console.log("Orchestrated:", orchestrated);
 
-  // This would NOT compile - missing LoggedInUser, Transaction, AND WriteAccess!
-  // const bad = yield* doSomethingComplex("user-789")
-  //                    ^ Error: LoggedInUser | Transaction | WriteAccess is missing from context
-}).pipe(checkAuthOrFail); // provides LoggedInUser for everything above
+  console.log("\n--- Reading a missing user fails with UserNotFound ---");
+  const missing = yield* getUserOrFail("user-does-not-exist").pipe(
+    Transaction.commit,
+    authorize("read", "users"), // reading needs no write permission
+    Effect.either,
+  );
+  console.log("Missing:", missing);
+
+  console.log(
+    "\n--- A nested commit is a savepoint: its failure only undoes its own writes ---",
+  );
+  yield* Effect.gen(function* () {
+    yield* Users.upsert({ id: "user-123", name: "Alice (kept)" });
+    yield* Users.upsert({ id: "user-123", name: "Alice (rolled back)" }).pipe(
+      Effect.zipRight(Effect.fail(new UserNotFound("user-999"))),
+      Transaction.commit, // nested -> SAVEPOINT, rolled back on failure
+      Effect.ignore,
+    );
+    console.log("After savepoint:", yield* Users.get("user-123"));
+  }).pipe(
+    Transaction.commitWith({ isolation: "Serializable" }),
+    authorizeAll("read:users", "write:users"),
+  );
 
-// Set AUTH_TOKEN so auth passes
-process.env.AUTH_TOKEN = "secret";
+  console.log(
+    "\n--- Only admins see a user's email, so it is left out for Alice ---",
+  );
+  const bob = yield* Users.get("user-456").pipe(
+    Transaction.commit,
+    authorize("read", "users"),
+  );
+  console.log("Bob:", bob); // Type: Stored<...> with `email` optional
+
+  console.log(
+    "\n--- Another tenant's data needs asPlatformAdmin, which editors lack ---",
+  );
+  const crossTenant = yield* getUserOrFail("user-123").pipe(
+    asPlatformAdmin("globex", "SUP-42: checking a customer's record"),
+    Transaction.commit,
+    authorize("read", "users"),
+    Effect.either,
+  );
+  console.log("Cross-tenant:", crossTenant);
+
+  console.log("\n--- Everything Alice did, from the audit log ---");
+  const audit = yield* AuditLog;
+  for (const { seq, event } of yield* audit.query({ userId: "user-123" })) {
+    console.log(seq, event._tag, JSON.stringify(event));
+  }
 
-Effect.runPromise(main.pipe(Effect.provide(ProductionLayer)));
+  // This would NOT compile - missing LoggedInUser, Transaction, AND the permissions!
+  // const bad = yield* doSomethingComplex("user-789")
+  //                    ^ Error: LoggedInUser | Transaction | Requires<"read", "users"> | Requires<"write", "users"> is missing from context
+}).pipe(authenticate); // provides CurrentUser, LoggedInUser and Tenant for everything above
+
+if (import.meta.main) {
+  // Sign an editor token so auth passes
+  process.env.AUTH_TOKEN = signJwt(
+    {
+      sub: "user-123",
+      email: "alice@example.com",
+      tenant: "acme",
+      roles: ["editor"],
+      iss: "effect-demo",
+      aud: "effect-demo",
+      exp: Math.floor(Date.now() / 1000) + 3600,
+    },
+    "demo-secret",
+  );
+  Effect.runPromise(main.pipe(Effect.provide(ProductionLayer)));
+}
 
 // =============================================================================
 // KEY TAKEAWAYS:
 //
 // Look at any function's type signature and you IMMEDIATELY know:
 // 1. What services it depends on (CosmosClient, RateLimiter, etc.)
-// 2. What errors it can produce (UserNotFound, Unauthenticated, Forbidden, etc.)
+// 2. What errors it can produce (UserNotFound, Unauthenticated, AccessDenied, etc.)
 // 3. Whether it holds resources (Scope requirement)
 // 4. Whether it requires a transaction (Transaction requirement)
 // 5. Whether it requires authentication (LoggedInUser requirement)
-// 6. Whether it requires write permission (WriteAccess requirement)
+//    and whose data it works on (Tenant requirement)
+// 6. Which permissions it needs (Requires<"read" | "write", container>)
 //
-// WriteAccess is DERIVED from LoggedInUser - checkWriteAccessOrFail reads
-// the user's role and either grants WriteAccess or fails with Forbidden.
-// This shows how permissions can be LAYERED: auth first, then authorization.
+// Auth is one chain: authenticate verifies the token and provides
+// CurrentUser, with LoggedInUser derived from it; authorize checks the
+// user's roles and grants the permissions. Auth first, then authorization.
 //
-// Transaction, LoggedInUser, and WriteAccess are SEMANTIC markers.
-// Cosmos read methods require Transaction + LoggedInUser.
-// Cosmos write methods require Transaction + LoggedInUser + WriteAccess.
+// Transaction, LoggedInUser, Tenant and Requires<...> are SEMANTIC markers.
+// Cosmos read methods require Transaction + LoggedInUser + Tenant + Requires<"read", C>.
+// Cosmos write methods require Transaction + LoggedInUser + Tenant + Requires<"write", C>.
 // Those requirements BUBBLE UP through every caller.
 //
-// If you forget checkAuthOrFail(), checkWriteAccessOrFail(), or
-// Transaction.commit(), THE COMPILER TELLS YOU.
+// If you forget authenticate, authorize, or Transaction.commit(),
+// THE COMPILER TELLS YOU.
 //
 // Summary:
 // - "function requires auth" -> requires LoggedInUser
-// - "function requires write permission" -> requires WriteAccess (derived from user)
+// - "function reads/writes container C" -> requires Requires<"read" | "write", C>
 // - "function uses a transaction" -> requires Transaction
 // - "will hold a mutex" -> requires Mutex + Scope
 // - "will consume a rate limit" -> requires RateLimiter
-// - "will read from cosmos" -> requires CosmosClient + Transaction + LoggedInUser
-// - "will write to cosmos" -> requires CosmosClient + Transaction + LoggedInUser + WriteAccess
+// - "works on another tenant's data" -> asPlatformAdmin, audited
+// - "will read from cosmos" -> requires CosmosClient + Transaction + LoggedInUser + Tenant + Requires<"read", C>
+// - "will write to cosmos" -> requires CosmosClient + Transaction + LoggedInUser + Tenant + Requires<"write", C>
+// - "emits a domain event" -> requires Outbox + Transaction, dispatched after COMMIT
 //
 // All statically known. All in the types. No runtime surprises.
 // The compiler enforces it.
@@ -0,0 +1,238 @@
+import { describe, expect, test } from "bun:test";
+import {
+  Duration,
+  Effect,
+  Exit,
+  Fiber,
+  Layer,
+  TestClock,
+  TestContext,
+} from "effect";
+import { AuditLog, InMemoryAuditLog } from "./audit-log.ts";
+import { AuthProvider, JwtAuthProvider, signJwt } from "./auth-provider.ts";
+import { CosmosClient, makeInMemoryCosmos } from "./cosmos.ts";
+import { type Elevations, InMemoryElevations } from "./elevation.ts";
+import { doSomethingWithMutex } from "./index.ts";
+import { Mutex, MutexLive, MutexTimeout } from "./mutex.ts";
+import type { PolicySource } from "./policy-source.ts";
+import { authenticateWith, authorize, BuiltInPolicy } from "./rbac.ts";
+import { Transaction } from "./transaction.ts";
+
+// In-memory Cosmos whose upsert yields a few times mid-write, recording how
+// many writers are inside it at once.
+const makeOverlapProbe = () => {
+  let active = 0;
+  let maxActive = 0;
+  const layer = Layer.effect(
+    CosmosClient,
+    Effect.map(
+      makeInMemoryCosmos({
+        containers: { counters: { partitionKey: "/id" } },
+      }),
+      (cosmos) =>
+        CosmosClient.of({
+          ...cosmos,
+          upsertDocument: (doc, options) =>
+            Effect.gen(function* () {
+              active++;
+              maxActive = Math.max(maxActive, active);
+              for (let i = 0; i < 5; i++) yield* Effect.yieldNow();
+              active--;
+              return yield* cosmos.upsertDocument(doc, options);
+            }),
+        }),
+    ),
+  );
+  return { layer, maxActive: () => maxActive };
+};
+
+// Only the authorizers provide a Tenant, so the programs below sign in as an
+// editor of "acme" like any other caller
+const jwtOptions = { secret: "test-secret", issuer: "test", audience: "test" };
+const signedIn = authenticateWith(
+  Effect.sync(() =>
+    signJwt(
+      {
+        sub: "user-1",
+        email: "alice@example.com",
+        tenant: "acme",
+        roles: ["editor"],
+        iss: jwtOptions.issuer,
+        aud: jwtOptions.audience,
+        exp: Math.floor(Date.now() / 1000) + 3600,
+      },
+      jwtOptions.secret,
+    ),
+  ),
+);
+
+const runWithMutex = <A, E>(
+  effect: Effect.Effect<
+    A,
+    E,
+    Mutex | CosmosClient | AuditLog | AuthProvider | PolicySource | Elevations
+  >,
+  cosmos: Layer.Layer<CosmosClient, never, AuditLog>,
+) =>
+  effect.pipe(
+    Effect.provide(
+      Layer.mergeAll(
+        MutexLive(),
+        cosmos,
+        JwtAuthProvider(jwtOptions),
+        BuiltInPolicy,
+        InMemoryElevations,
+      ).pipe(Layer.provideMerge(InMemoryAuditLog)),
+    ),
+    Effect.runPromise,
+  );
+
+const lockedUpsert = doSomethingWithMutex().pipe(
+  Mutex.release,
+  Transaction.commit,
+  authorize("write", "counters"),
+  signedIn,
+);
+
+describe("Mutex", () => {
+  test("two fibers racing in doSomethingWithMutex never overlap", async () => {
+    const probe = makeOverlapProbe();
+    const results = await runWithMutex(
+      Effect.all([lockedUpsert, lockedUpsert], { concurrency: "unbounded" }),
+      probe.layer,
+    );
+
+    expect(results).toEqual(["done", "done"]);
+    expect(probe.maxActive()).toBe(1);
+  });
+
+  test("different keys do not block each other", async () => {
+    const probe = makeOverlapProbe();
+    const upsertUnder = (key: string) =>
+      Effect.gen(function* () {
+        const mutex = yield* Mutex;
+        yield* mutex.acquireKey(key);
+        const cosmos = yield* CosmosClient;
+        yield* cosmos.upsertDocument({ id: key }, { container: "counters" });
+      }).pipe(
+        Mutex.release,
+        Transaction.commit,
+        authorize("write", "counters"),
+        signedIn,
+      );
+
+    await runWithMutex(
+      Effect.all([upsertUnder("a"), upsertUnder("b")], {
+        concurrency: "unbounded",
+      }),
+      probe.layer,
+    );
+
+    expect(probe.maxActive()).toBe(2);
+  });
+
+  test("the lock is released when the holder fails or is interrupted", async () => {
+    const program = Effect.gen(function* () {
+      const mutex = yield* Mutex;
+      const holdForever = Effect.gen(function* () {
+        yield* mutex.acquire;
+        return yield* Effect.never;
+      }).pipe(Mutex.release);
+
+      const holder = yield* Effect.fork(holdForever);
+      yield* Effect.yieldNow();
+      yield* Fiber.interrupt(holder);
+
+      const failed = yield* Effect.gen(function* () {
+        yield* mutex.acquire;
+        return yield* Effect.fail("boom");
+      }).pipe(Mutex.release, Effect.exit);
+
+      yield* mutex.acquire.pipe(Mutex.release);
+      return failed;
+    }).pipe(Effect.provide(MutexLive()));
+
+    const failed = await Effect.runPromise(program);
+    expect(Exit.isFailure(failed)).toBe(true);
+  });
+
+  test("waiters are served in FIFO order when fair", async () => {
+    const order: Array<number> = [];
+    const program = Effect.gen(function* () {
+      const mutex = yield* Mutex;
+      const worker = (n: number) =>
+        Effect.gen(function* () {
+          yield* mutex.acquire;
+          order.push(n);
+          yield* Effect.yieldNow();
+        }).pipe(Mutex.release);
+
+      yield* Effect.forEach([1, 2, 3, 4], worker, {
+        concurrency: "unbounded",
+      });
+    }).pipe(Effect.provide(MutexLive({ fair: true })));
+
+    await Effect.runPromise(program);
+    expect(order).toEqual([1, 2, 3, 4]);
+  });
+
+  test("a fiber asking right after the release barges in only when unfair", async () => {
+    const order = (fair: boolean) =>
+      Effect.gen(function* () {
+        const mutex = yield* Mutex;
+        const order: Array<string> = [];
+        const lockAs = (name: string) =>
+          mutex.acquire.pipe(
+            Effect.andThen(() => order.push(name)),
+            Mutex.release,
+          );
+
+        // The waiter queues up while we hold the lock; we ask again as soon
+        // as we release it, before the waiter gets to run
+        const waiter = yield* Effect.gen(function* () {
+          yield* mutex.acquire;
+          const waiter = yield* Effect.fork(lockAs("waiter"));
+          // Suspended: waiting in line
+          yield* Effect.yieldNow().pipe(
+            Effect.zipRight(Fiber.status(waiter)),
+            Effect.repeat({ until: (status) => status._tag === "Suspended" }),
+          );
+          return waiter;
+        }).pipe(Mutex.release);
+        yield* lockAs("late");
+        yield* Fiber.join(waiter);
+        return order;
+      }).pipe(Effect.provide(MutexLive({ fair })), Effect.runPromise);
+
+    expect(await order(false)).toEqual(["late", "waiter"]);
+    expect(await order(true)).toEqual(["waiter", "late"]);
+  });
+
+  test("acquire fails with MutexTimeout once the timeout elapses", async () => {
+    const program = Effect.gen(function* () {
+      const mutex = yield* Mutex;
+      yield* Effect.fork(
+        Effect.gen(function* () {
+          yield* mutex.acquire;
+          return yield* Effect.never;
+        }).pipe(Mutex.release),
+      );
+      yield* Effect.yieldNow();
+
+      const waiter = yield* Effect.fork(mutex.acquire.pipe(Mutex.release));
+      yield* TestClock.adjust("1 second");
+      return yield* Fiber.join(waiter).pipe(Effect.flip);
+    }).pipe(
+      Effect.provide(
+        Layer.merge(
+          MutexLive({ timeout: "1 second" }),
+          TestContext.TestContext,
+        ),
+      ),
+    );
+
+    const error = await Effect.runPromise(program);
+    expect(error).toBeInstanceOf(MutexTimeout);
+    expect(Duration.toMillis(error.timeout)).toBe(1000);
+  });
+});
@@ -0,0 +1,189 @@
+import {
+  Clock,
+  Context,
+  Deferred,
+  Duration,
+  Effect,
+  Exit,
+  Layer,
+  Metric,
+  Scope,
+} from "effect";
+import { lockHoldTime } from "./telemetry.ts";
+
+// =============================================================================
+// Keyed Mutex - holding a lock is tracked in the types
+//
+// `acquire` blocks until the lock for its key is free, then registers the
+// unlock as a finalizer on the current Scope. It also requires `Locked`, so
+// every caller that takes a lock shows it in its signature.
+//
+// `Mutex.release` is the boundary: it opens a scope, provides `Locked`, and
+// closes the scope when the wrapped effect ends (success, failure or
+// interruption), which unlocks everything taken inside it.
+//
+// Waiting for a lock runs in a "Mutex.acquire" span; how long each key was
+// held goes to the `mutex.hold_ms` histogram (./telemetry.ts).
+// =============================================================================
+
+// Semantic only marker that a resource is locked
+export class Locked extends Context.Tag("@app/Locked")<Locked, {}>() {}
+
+// The lock could not be taken within the configured timeout
+export class MutexTimeout extends Error {
+  readonly _tag = "MutexTimeout";
+  constructor(
+    readonly key: string,
+    readonly timeout: Duration.Duration,
+  ) {
+    super(
+      `Timed out after ${Duration.format(timeout)} waiting for lock "${key}"`,
+    );
+  }
+}
+
+export interface MutexOptions {
+  // How long `acquire` may wait before failing with MutexTimeout.
+  // Waits forever when omitted.
+  readonly timeout?: Duration.DurationInput;
+  // Fair (default): the lock is handed to waiters in FIFO order.
+  // Unfair: a released lock can be taken by whichever fiber asks first,
+  // which trades ordering guarantees for throughput.
+  readonly fair?: boolean;
+}
+
+// A mutex service - holding a lock is type-tracked
+export class Mutex extends Context.Tag("@app/Mutex")<
+  Mutex,
+  {
+    // Lock the default key
+    readonly acquire: Effect.Effect<void, MutexTimeout, Locked | Scope.Scope>;
+    // Lock a specific key - different keys never block each other
+    readonly acquireKey: (
+      key: string,
+    ) => Effect.Effect<void, MutexTimeout, Locked | Scope.Scope>;
+  }
+>() {
+  // release runs the effect in its own scope with Locked provided.
+  // Closing that scope unlocks every key acquired inside it.
+  static readonly release = <A, E, R>(effect: Effect.Effect<A, E, R>) =>
+    Effect.scoped(Effect.provideService(effect, Locked, {}));
+}
+
+// --- Implementation ---
+
+// The key `acquire` locks
+export const DEFAULT_KEY = "default";
+
+interface KeyState {
+  held: boolean;
+  readonly waiters: Array<Deferred.Deferred<void>>;
+}
+
+export const makeMutex = (options: MutexOptions = {}) =>
+  Effect.sync(() => {
+    const fair = options.fair ?? true;
+    const timeout =
+      options.timeout === undefined
+        ? undefined
+        : Duration.decode(options.timeout);
+    const keys = new Map<string, KeyState>();
+
+    const stateFor = (key: string) => {
+      let state = keys.get(key);
+      if (!state) {
+        state = { held: false, waiters: [] };
+        keys.set(key, state);
+      }
+      return state;
+    };
+
+    // Fair: hand the lock straight to the next waiter so nobody can barge in.
+    // Unfair: free the lock and wake the next waiter to compete for it.
+    const unlock = (key: string) =>
+      Effect.suspend(() => {
+        const state = stateFor(key);
+        const next = state.waiters.shift();
+        if (!fair || !next) state.held = false;
+        if (!next) keys.delete(key);
+        return next ? Deferred.succeed(next, undefined) : Effect.void;
+      });
+
+    const tryLock = (state: KeyState) => {
+      if (state.held || (fair && state.waiters.length > 0)) return false;
+      state.held = true;
+      return true;
+    };
+
+    // Wait in line until the lock is ours. Must run uninterruptibly, with
+    // `restore` marking the only point where we may be interrupted.
+    const lock = (
+      key: string,
+      restore: <A, E, R>(e: Effect.Effect<A, E, R>) => Effect.Effect<A, E, R>,
+    ): Effect.Effect<void, MutexTimeout> =>
+      Effect.gen(function* () {
+        const state = stateFor(key);
+        if (tryLock(state)) return;
+
+        const waiter = yield* Deferred.make<void>();
+        state.waiters.push(waiter);
+
+        const wait = Deferred.await(waiter);
+        yield* restore(
+          timeout === undefined
+            ? wait
+            : wait.pipe(
+                Effect.timeoutFail({
+                  duration: timeout,
+                  onTimeout: () => new MutexTimeout(key, timeout),
+                }),
+              ),
+        ).pipe(
+          Effect.onExit((exit) =>
+            Exit.isSuccess(exit)
+              ? Effect.void
+              : Effect.gen(function* () {
+                  // Gave up waiting. If we were woken in the meantime, pass
+                  // the wake-up on so the lock is not lost.
+                  const index = state.waiters.indexOf(waiter);
+                  if (index >= 0) state.waiters.splice(index, 1);
+                  if (yield* Deferred.isDone(waiter)) yield* unlock(key);
+                }),
+          ),
+        );
+
+        // A fair unlock handed the lock over; an unfair one only woke us up
+        if (!fair) yield* lock(key, restore);
+      });
+
+    const acquireKey = (key: string) =>
+      Effect.uninterruptibleMask((restore) =>
+        Effect.gen(function* () {
+          const scope = yield* Scope.Scope;
+          yield* Locked;
+          yield* lock(key, restore);
+          const lockedAt = yield* Clock.currentTimeMillis;
+          yield* Effect.log(`[Mutex] Acquired "${key}"`);
+          yield* Scope.addFinalizer(
+            scope,
+            unlock(key).pipe(
+              Effect.tap(() => Effect.log(`[Mutex] Released "${key}"`)),
+              Effect.zipRight(Clock.currentTimeMillis),
+              Effect.flatMap((now) =>
+                Metric.update(
+                  Metric.tagged(lockHoldTime, "key", key),
+                  now - lockedAt,
+                ),
+              ),
+            ),
+          );
+        }),
+      ).pipe(
+        Effect.withSpan("Mutex.acquire", { attributes: { "mutex.key": key } }),
+      );
+
+    return Mutex.of({ acquire: acquireKey(DEFAULT_KEY), acquireKey });
+  });
+
+export const MutexLive = (options: MutexOptions = {}) =>
+  Layer.effect(Mutex, makeMutex(options));
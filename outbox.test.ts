@@ -0,0 +1,185 @@
+import { describe, expect, test } from "bun:test";
+import { Deferred, Effect, Schedule } from "effect";
+import { type DomainEvent, Outbox } from "./outbox.ts";
+import {
+  assertInOrder,
+  begin,
+  commit,
+  rollback,
+  TestKit,
+  type TestKitOptions,
+  type TestKitServices,
+  timelineEvents,
+} from "./test-kit.ts";
+import { Transaction } from "./transaction.ts";
+
+class Boom extends Error {
+  readonly _tag = "Boom";
+}
+
+class BrokerUnavailable extends Error {
+  readonly _tag = "BrokerUnavailable";
+  constructor() {
+    super("broker unavailable");
+  }
+}
+
+const run = <A, E>(
+  effect: Effect.Effect<A, E, TestKitServices>,
+  options: TestKitOptions = {},
+) => effect.pipe(Effect.provide(TestKit(options)), Effect.runPromise);
+
+const published = (postId: number): DomainEvent => ({
+  _tag: "PostPublished",
+  postId,
+  title: `Post ${postId}`,
+});
+
+const settled = Effect.flatMap(Outbox, (outbox) => outbox.settled);
+const entries = Effect.flatMap(Outbox, (outbox) => outbox.entries);
+
+const publishedEvents = Effect.map(timelineEvents, (events) =>
+  events.flatMap((e) => (e._tag === "EventPublished" ? [e.event] : [])),
+);
+
+describe("Outbox", () => {
+  test("events are stored right away but published only after COMMIT", async () => {
+    const [inside, after] = await run(
+      Effect.gen(function* () {
+        const inside = yield* Effect.gen(function* () {
+          yield* Outbox.emit(published(1));
+          return yield* publishedEvents;
+        }).pipe(Transaction.commit);
+        yield* settled;
+        yield* assertInOrder(begin, commit, {
+          _tag: "EventPublished",
+          event: published(1),
+        });
+        return [inside, yield* entries] as const;
+      }),
+    );
+
+    expect(inside).toEqual([]);
+    expect(after).toMatchObject([
+      { id: 1, event: published(1), status: "delivered", attempts: 1 },
+    ]);
+  });
+
+  test("a rolled back transaction drops its events", async () => {
+    const [events, stored] = await run(
+      Effect.gen(function* () {
+        yield* Outbox.emit(published(1)).pipe(
+          Effect.zipRight(Effect.fail(new Boom())),
+          Transaction.commit,
+          Effect.ignore,
+        );
+        yield* settled;
+        yield* assertInOrder(begin, rollback);
+        return [yield* publishedEvents, yield* entries] as const;
+      }),
+    );
+
+    expect(events).toEqual([]);
+    expect(stored).toEqual([]);
+  });
+
+  test("a rolled back savepoint drops only its own events", async () => {
+    const events = await run(
+      Effect.gen(function* () {
+        yield* Effect.gen(function* () {
+          yield* Outbox.emit(published(1));
+          yield* Outbox.emit(published(2)).pipe(
+            Effect.zipRight(Effect.fail(new Boom())),
+            Transaction.commit,
+            Effect.ignore,
+          );
+          yield* Outbox.emit(published(3));
+        }).pipe(Transaction.commit);
+        yield* settled;
+        return yield* publishedEvents;
+      }),
+    );
+
+    expect(events).toEqual([published(1), published(3)]);
+  });
+
+  test("a failed publish is retried until it goes through", async () => {
+    let calls = 0;
+    const stored = await run(
+      Effect.gen(function* () {
+        yield* Outbox.emit(published(1)).pipe(Transaction.commit);
+        yield* settled;
+        return yield* entries;
+      }),
+      {
+        events: {
+          PostPublished: [
+            () =>
+              ++calls < 3 ? Effect.fail(new BrokerUnavailable()) : Effect.void,
+          ],
+        },
+        outbox: { retry: Schedule.recurs(5) },
+      },
+    );
+
+    expect(stored).toMatchObject([{ status: "delivered", attempts: 3 }]);
+  });
+
+  test("an event whose retries run out becomes a dead letter", async () => {
+    const dead = await run(
+      Effect.gen(function* () {
+        yield* Outbox.emit(published(1)).pipe(Transaction.commit);
+        yield* settled;
+        return yield* Effect.flatMap(Outbox, (outbox) => outbox.deadLetters);
+      }),
+      {
+        events: {
+          PostPublished: [() => Effect.fail(new BrokerUnavailable())],
+        },
+        outbox: { retry: Schedule.recurs(2) },
+      },
+    );
+
+    expect(dead).toMatchObject([
+      {
+        event: published(1),
+        status: "dead",
+        attempts: 3,
+        lastError: "broker unavailable",
+      },
+    ]);
+  });
+
+  test("releasing the layer interrupts a delivery still retrying", async () => {
+    const failedOnce = Effect.runSync(Deferred.make<void>());
+    const program = Effect.gen(function* () {
+      yield* Outbox.emit(published(1)).pipe(Transaction.commit);
+      yield* Deferred.await(failedOnce);
+      return yield* entries;
+    }).pipe(
+      Effect.provide(
+        TestKit({
+          events: {
+            PostPublished: [
+              () =>
+                Deferred.succeed(failedOnce, undefined).pipe(
+                  Effect.zipRight(Effect.fail(new BrokerUnavailable())),
+                ),
+            ],
+          },
+          outbox: { retry: Schedule.spaced("1 hour") },
+        }),
+      ),
+    );
+
+    // Disconnected, so a release that never ends times out instead of
+    // hanging the test
+    const stored = await program.pipe(
+      Effect.disconnect,
+      Effect.timeout("2 seconds"),
+      Effect.runPromise,
+    );
+
+    expect(stored).toMatchObject([{ status: "pending", attempts: 1 }]);
+  });
+});
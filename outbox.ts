@@ -0,0 +1,247 @@
+import { Context, Effect, FiberSet, Layer, Schedule } from "effect";
+import { Transaction } from "./transaction.ts";
+
+// =============================================================================
+// Transactional outbox - domain events leave only after COMMIT
+//
+// Workflows emit events with `Outbox.emit`, which requires a Transaction:
+// an event belongs to the transaction it was emitted in. It is stored in
+// the outbox right away, alongside the transaction's writes, and removed
+// again if the transaction (or its savepoint) rolls back. Once the
+// outermost transaction commits, every event it emitted is dispatched to
+// the EventBroker.
+//
+// Delivery is at least once: a failed publish is retried on the outbox's
+// retry Schedule, so handlers may see an event more than once. An event
+// whose retries run out goes to the dead letters with its last error.
+//
+// Entries are kept in memory, by the layer. Releasing it interrupts the
+// deliveries still in progress, and their entries stay "pending": nothing
+// sweeps them up and dispatches them again, since a new layer starts with
+// an empty outbox. A durable outbox would store entries with the writes
+// and re-dispatch whatever is pending when it starts.
+//
+// Two brokers:
+//   - InMemoryEventBroker: a local broker calling handlers registered per
+//     event type, for tests and demos
+//   - anything else implementing EventBroker (a message queue...)
+// =============================================================================
+
+// --- Events ---
+
+export interface PostPublished {
+  readonly _tag: "PostPublished";
+  readonly postId: number;
+  readonly title: string;
+}
+
+export interface UserAccessed {
+  readonly _tag: "UserAccessed";
+  readonly userId: string;
+  // Epoch milliseconds
+  readonly accessedAt: number;
+}
+
+export type DomainEvent = PostPublished | UserAccessed;
+
+export interface OutboxEntry {
+  readonly id: number;
+  // The transaction that emitted the event
+  readonly transactionId: number;
+  readonly event: DomainEvent;
+  // "pending" until delivered, or "dead" once the retries ran out
+  readonly status: "pending" | "delivered" | "dead";
+  readonly attempts: number;
+  // The error of the last failed attempt
+  readonly lastError?: string;
+}
+
+// --- Errors ---
+
+export class DeliveryFailed extends Error {
+  readonly _tag = "DeliveryFailed";
+  constructor(
+    readonly eventType: DomainEvent["_tag"],
+    readonly reason: string,
+  ) {
+    super(`Delivering ${eventType} failed: ${reason}`);
+  }
+}
+
+// --- Broker ---
+
+// Where the outbox dispatches to
+export class EventBroker extends Context.Tag("@app/EventBroker")<
+  EventBroker,
+  {
+    readonly publish: (
+      event: DomainEvent,
+    ) => Effect.Effect<void, DeliveryFailed>;
+  }
+>() {}
+
+export type EventHandler<E extends DomainEvent> = (
+  event: E,
+) => Effect.Effect<void, Error>;
+
+// Handlers per event type, e.g. `{ UserAccessed: [updateLastSeen] }`
+export type EventHandlers = {
+  readonly [T in DomainEvent["_tag"]]?: ReadonlyArray<
+    EventHandler<Extract<DomainEvent, { readonly _tag: T }>>
+  >;
+};
+
+const handlersOf = (handlers: EventHandlers, event: DomainEvent) =>
+  (handlers[event._tag] ?? []) as ReadonlyArray<EventHandler<DomainEvent>>;
+
+// Publishing calls every handler of the event's type in order. The first
+// one to fail fails the delivery, and a retry calls them all again.
+export const makeInMemoryEventBroker = (handlers: EventHandlers) =>
+  Effect.sync(() =>
+    EventBroker.of({
+      publish: (event) =>
+        Effect.forEach(
+          handlersOf(handlers, event),
+          (handle) =>
+            handle(event).pipe(
+              Effect.mapError(
+                (error) => new DeliveryFailed(event._tag, error.message),
+              ),
+            ),
+          { discard: true },
+        ),
+    }),
+  );
+
+export const InMemoryEventBroker = (handlers: EventHandlers = {}) =>
+  Layer.effect(EventBroker, makeInMemoryEventBroker(handlers));
+
+// --- Outbox ---
+
+export class Outbox extends Context.Tag("@app/Outbox")<
+  Outbox,
+  {
+    // Store `event` in the current transaction: dispatched after COMMIT,
+    // dropped on ROLLBACK
+    readonly emit: (
+      event: DomainEvent,
+    ) => Effect.Effect<void, never, Transaction>;
+    // Every stored event, oldest first
+    readonly entries: Effect.Effect<ReadonlyArray<OutboxEntry>>;
+    // The events whose retries ran out
+    readonly deadLetters: Effect.Effect<ReadonlyArray<OutboxEntry>>;
+    // Wait until every committed event is delivered or dead
+    readonly settled: Effect.Effect<void>;
+  }
+>() {
+  // Usage: `yield* Outbox.emit({ _tag: "PostPublished", postId, title })`
+  static emit(event: DomainEvent) {
+    return Effect.flatMap(Outbox, (outbox) => outbox.emit(event));
+  }
+}
+
+export interface OutboxOptions {
+  // When to retry a failed publish. Default: 5 retries, 100ms apart and
+  // doubling.
+  readonly retry?: Schedule.Schedule<unknown, DeliveryFailed>;
+}
+
+const defaultRetry = Schedule.exponential("100 millis").pipe(
+  Schedule.intersect(Schedule.recurs(5)),
+);
+
+export const makeOutbox = (options: OutboxOptions = {}) =>
+  Effect.gen(function* () {
+    const broker = yield* EventBroker;
+    // Deliveries in progress, interrupted when the layer is released
+    const deliveries = yield* FiberSet.make();
+    const entries = new Map<number, OutboxEntry>();
+    const retry = options.retry ?? defaultRetry;
+    let nextId = 1;
+
+    const update = (
+      id: number,
+      change: (entry: OutboxEntry) => OutboxEntry,
+    ) => {
+      const entry = entries.get(id);
+      if (entry) entries.set(id, change(entry));
+    };
+
+    const attempt = (id: number, event: DomainEvent) =>
+      Effect.suspend(() => {
+        update(id, (entry) => ({ ...entry, attempts: entry.attempts + 1 }));
+        return broker.publish(event);
+      }).pipe(
+        Effect.tapError((error) =>
+          Effect.sync(() =>
+            update(id, (entry) => ({ ...entry, lastError: error.reason })),
+          ),
+        ),
+      );
+
+    const deliver = (id: number, event: DomainEvent) =>
+      attempt(id, event).pipe(
+        Effect.retry(retry),
+        Effect.matchEffect({
+          onSuccess: () =>
+            Effect.sync(() =>
+              update(id, (entry) => ({ ...entry, status: "delivered" })),
+            ).pipe(
+              Effect.zipRight(
+                Effect.log(`[Outbox] Delivered #${id} ${event._tag}`),
+              ),
+            ),
+          onFailure: (error) =>
+            Effect.sync(() =>
+              update(id, (entry) => ({ ...entry, status: "dead" })),
+            ).pipe(
+              Effect.zipRight(
+                Effect.logError(
+                  `[Outbox] Dead letter #${id} ${event._tag}: ${error.reason}`,
+                ),
+              ),
+            ),
+        }),
+        Effect.withSpan("Outbox.deliver", {
+          attributes: { "outbox.id": id, "event.type": event._tag },
+        }),
+      );
+
+    return Outbox.of({
+      emit: (event) =>
+        Effect.gen(function* () {
+          const tx = yield* Transaction;
+          const id = nextId++;
+          entries.set(id, {
+            id,
+            transactionId: tx.id,
+            event,
+            status: "pending",
+            attempts: 0,
+          });
+          yield* tx.onRollback(
+            Effect.log(`[Outbox] Drop #${id} ${event._tag}`).pipe(
+              Effect.andThen(() => entries.delete(id)),
+            ),
+          );
+          // Forked, so a slow broker doesn't hold up the committing caller.
+          // Commit actions run uninterruptible, which the fork would
+          // inherit: made interruptible again so releasing the layer can
+          // stop a delivery that is still retrying.
+          yield* tx.onCommit(
+            FiberSet.run(
+              deliveries,
+              Effect.interruptible(deliver(id, event)),
+            ).pipe(Effect.asVoid),
+          );
+        }),
+      entries: Effect.sync(() => [...entries.values()]),
+      deadLetters: Effect.sync(() =>
+        [...entries.values()].filter((entry) => entry.status === "dead"),
+      ),
+      settled: FiberSet.awaitEmpty(deliveries),
+    });
+  });
+
+export const OutboxLive = (options: OutboxOptions = {}) =>
+  Layer.scoped(Outbox, makeOutbox(options));
@@ -0,0 +1,210 @@
+import { describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Effect, Either, Layer, Schedule } from "effect";
+import { InMemoryAuditLog } from "./audit-log.ts";
+import { InMemoryElevations } from "./elevation.ts";
+import {
+  FilePolicySource,
+  loadPolicyFile,
+  parsePolicy,
+  PolicySource,
+} from "./policy-source.ts";
+import { decide, policyFor } from "./rbac-policy.ts";
+import { authorize, createPost, CurrentUser, rolePermissions } from "./rbac.ts";
+
+const issuesOf = (contents: unknown) =>
+  Either.match(parsePolicy("test.json", contents), {
+    onLeft: (error) => error.issues,
+    onRight: () => [],
+  });
+
+const malformed = (rule: string) =>
+  `Expected "action:resource" (either side may be *), actual "${rule}"`;
+
+describe("PolicyFile", () => {
+  test("./policy.yaml has the roles compiled into rbac.ts", async () => {
+    const loaded = await Effect.runPromise(
+      loadPolicyFile(join(import.meta.dir, "policy.yaml")),
+    );
+    // The same tenants, each with the same roles
+    expect(Object.keys(loaded).sort()).toEqual(
+      Object.keys(rolePermissions).sort(),
+    );
+    for (const tenant of [...Object.keys(rolePermissions), "acme"]) {
+      const fromFile = policyFor(loaded, tenant);
+      const builtIn = policyFor(rolePermissions, tenant);
+      expect(fromFile.definition).toEqual(builtIn.definition);
+    }
+  });
+
+  test("rejects unknown keys and malformed rules by path", () => {
+    expect(
+      issuesOf({
+        roles: [
+          { name: "viewer", allow: ["read:posts"], alow: ["write:posts"] },
+          { name: "editor", allow: ["write posts", "read:posts:all"] },
+          { name: "viewer" },
+        ],
+        tenants: { globex: [{ name: "editor", deny: [":posts"] }] },
+      }),
+    ).toEqual([
+      {
+        path: "roles[0].alow",
+        message: `is unexpected, expected: "name" | "inherits" | "allow" | "allowOwn" | "deny"`,
+      },
+      { path: "roles[1].allow[0]", message: malformed("write posts") },
+      { path: "roles[1].allow[1]", message: malformed("read:posts:all") },
+      { path: "tenants.globex[0].deny[0]", message: malformed(":posts") },
+    ]);
+  });
+
+  test("duplicate roles are reported once the rest is valid", () => {
+    expect(
+      issuesOf({ roles: [{ name: "viewer" }, { name: "viewer" }] }),
+    ).toEqual([{ path: "roles[1].name", message: 'Duplicate role "viewer"' }]);
+  });
+
+  test.each([
+    {
+      name: "an unknown shared role",
+      contents: { roles: [{ name: "editor", inherits: ["viewer"] }] },
+      issue: {
+        path: "roles[0].inherits[0]",
+        message: 'Role "editor" inherits unknown role "viewer"',
+      },
+    },
+    {
+      name: "an unknown role in a tenant's own",
+      contents: {
+        roles: [{ name: "viewer" }, { name: "editor" }],
+        tenants: {
+          globex: [{ name: "editor", inherits: ["viewer", "writer"] }],
+        },
+      },
+      issue: {
+        path: "tenants.globex[0].inherits[1]",
+        message: 'Role "editor" inherits unknown role "writer"',
+      },
+    },
+    {
+      name: "a cycle in the shared roles",
+      contents: {
+        roles: [
+          { name: "viewer", inherits: ["editor"] },
+          { name: "editor", inherits: ["viewer"] },
+        ],
+      },
+      issue: {
+        path: "roles[0].inherits[0]",
+        message: "Role inheritance cycle: viewer -> editor -> viewer",
+      },
+    },
+    {
+      name: "a cycle a tenant's own role closes",
+      contents: {
+        roles: [{ name: "viewer" }, { name: "editor", inherits: ["viewer"] }],
+        tenants: {
+          globex: [
+            { name: "admin" },
+            { name: "viewer", inherits: ["admin", "editor"] },
+          ],
+        },
+      },
+      issue: {
+        path: "tenants.globex[1].inherits[1]",
+        message: "Role inheritance cycle: viewer -> editor -> viewer",
+      },
+    },
+  ])("reports $name at the inherits entry", ({ contents, issue }) => {
+    expect(issuesOf(contents)).toEqual([issue]);
+  });
+});
+
+describe("FilePolicySource", () => {
+  const viewerMay = (write: boolean) =>
+    JSON.stringify({
+      roles: [
+        {
+          name: "viewer",
+          allow: write ? ["read:posts", "write:posts"] : ["read:posts"],
+        },
+      ],
+    });
+
+  const waitForVersion = (version: number) =>
+    Effect.flatMap(PolicySource, (source) => source.current).pipe(
+      Effect.repeat({
+        schedule: Schedule.spaced("10 millis"),
+        until: (loaded) => loaded.version >= version,
+      }),
+      Effect.timeout("2 seconds"),
+    );
+
+  test("swaps the policy when the file changes, keeping the last good one", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "policy-"));
+    const path = join(dir, "policy.json");
+    writeFileSync(path, viewerMay(false));
+
+    const asViewer = createPost("Hi").pipe(
+      authorize("write", "posts"),
+      Effect.provideService(CurrentUser, {
+        id: "user-2",
+        email: "viewer@example.com",
+        tenant: "acme",
+        roles: ["viewer"],
+      }),
+      Effect.either,
+    );
+
+    const [before, after, failed, kept] = await Effect.gen(function* () {
+      const before = yield* asViewer;
+
+      writeFileSync(path, viewerMay(true));
+      yield* waitForVersion(2);
+      const after = yield* asViewer;
+
+      writeFileSync(path, "{ not json");
+      const source = yield* PolicySource;
+      const failed = yield* Effect.flip(source.reload);
+      const kept = yield* source.current;
+      return [before, after, failed, kept] as const;
+    }).pipe(
+      Effect.provide(
+        Layer.mergeAll(
+          FilePolicySource({ path, debounce: "10 millis" }),
+          InMemoryAuditLog,
+          InMemoryElevations,
+        ),
+      ),
+      Effect.runPromise,
+    );
+    rmSync(dir, { recursive: true });
+
+    expect(Either.isLeft(before)).toBe(true);
+    expect(Either.isRight(after)).toBe(true);
+    expect(failed._tag).toBe("PolicyFileUnreadable");
+    expect(kept.version).toBe(2);
+    expect(
+      decide(policyFor(kept.policies, "acme"), ["viewer"], "write", "posts")
+        .allowed,
+    ).toBe(true);
+  });
+
+  test("fails to start on an invalid file", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "policy-"));
+    const path = join(dir, "policy.yaml");
+    writeFileSync(path, "roles:\n  - name: viewer\n    allow: [readposts]\n");
+
+    const error = await Effect.flatMap(PolicySource, (s) => s.current).pipe(
+      Effect.provide(FilePolicySource({ path })),
+      Effect.flip,
+      Effect.runPromise,
+    );
+    rmSync(dir, { recursive: true });
+
+    expect(error._tag).toBe("PolicyFileInvalid");
+    expect(error.message).toContain("roles[0].allow[0]");
+  });
+});
@@ -0,0 +1,354 @@
+import { watch } from "node:fs";
+import { readFile } from "node:fs/promises";
+import * as path from "node:path";
+import {
+  Context,
+  Duration,
+  Effect,
+  Either,
+  Layer,
+  ParseResult,
+  Queue,
+  Record,
+  Ref,
+  Schema,
+} from "effect";
+import {
+  buildPolicy,
+  DEFAULT_TENANT,
+  type PermissionPattern,
+  type PolicyDefinition,
+  type PolicyError,
+  type TenantPolicies,
+} from "./rbac-policy.ts";
+
+// =============================================================================
+// Policy source - where the authorizers get their roles from
+//
+// The authorizers of ./rbac.ts read the policy from PolicySource on every
+// decision, so the roles can change without a deploy:
+//   - StaticPolicySource: a policy fixed at startup (the roles compiled into
+//     ./rbac.ts, for demos and tests)
+//   - FilePolicySource: a JSON or YAML file (see ./policy.yaml), validated
+//     with Schema and reloaded whenever it changes
+//
+// A reload swaps the whole policy in a Ref, and each authorizer reads it
+// once, so a decision never mixes two versions. A file that fails to load
+// on startup fails the layer; one that fails on reload is reported and the
+// last good policy stays in effect.
+// =============================================================================
+
+// --- File format ---
+
+// roles:                       roles of every tenant
+//   - name: viewer
+//     allow: [read:posts]
+//   - name: editor
+//     inherits: [viewer]
+//     allowOwn: [delete:posts]
+// tenants:                     roles some tenants define differently; they
+//   globex:                    replace the role of the same name above
+//     - name: editor
+//       ...
+//
+// Unknown keys, duplicate role names and rules that aren't "action:resource"
+// (or "action:resource.field") are rejected, and so are inheritance cycles
+// and unknown roles in `inherits`, each at the entry that causes it.
+
+const Permission = Schema.String.pipe(
+  Schema.filter(
+    (rule): rule is PermissionPattern =>
+      /^(\*|[\w-]+):(\*|[\w-]+(\.[\w-]+)?)$/.test(rule),
+    {
+      message: (issue) =>
+        `Expected "action:resource" (either side may be *), actual ${JSON.stringify(issue.actual)}`,
+    },
+  ),
+);
+
+const Role = Schema.Struct({
+  name: Schema.NonEmptyString,
+  inherits: Schema.optionalWith(Schema.Array(Schema.String), { exact: true }),
+  allow: Schema.optionalWith(Schema.Array(Permission), { exact: true }),
+  allowOwn: Schema.optionalWith(Schema.Array(Permission), { exact: true }),
+  deny: Schema.optionalWith(Schema.Array(Permission), { exact: true }),
+});
+
+const Roles = Schema.Array(Role).pipe(
+  Schema.filter((roles) =>
+    roles.flatMap((role, i) =>
+      roles.findIndex((other) => other.name === role.name) < i
+        ? [{ path: [i, "name"], message: `Duplicate role "${role.name}"` }]
+        : [],
+    ),
+  ),
+);
+
+export const PolicyFile = Schema.Struct({
+  roles: Roles,
+  tenants: Schema.optionalWith(
+    Schema.Record({ key: Schema.String, value: Roles }),
+    { exact: true },
+  ),
+});
+
+export type PolicyFile = typeof PolicyFile.Type;
+
+// --- Errors ---
+
+export class PolicyFileUnreadable extends Error {
+  readonly _tag = "PolicyFileUnreadable";
+  constructor(
+    readonly file: string,
+    readonly reason: string,
+  ) {
+    super(`Can't read policy file ${file}: ${reason}`);
+  }
+}
+
+export interface PolicyIssue {
+  // Where in the file, e.g. "roles[1].allow[0]"
+  readonly path: string;
+  readonly message: string;
+}
+
+export class PolicyFileInvalid extends Error {
+  readonly _tag = "PolicyFileInvalid";
+  constructor(
+    readonly file: string,
+    readonly issues: ReadonlyArray<PolicyIssue>,
+  ) {
+    super(
+      `Invalid policy file ${file}:\n` +
+        issues.map((issue) => `  ${issue.path}: ${issue.message}`).join("\n"),
+    );
+  }
+}
+
+export type PolicySourceError = PolicyFileUnreadable | PolicyFileInvalid;
+
+// --- Loading ---
+
+// ["roles", 1, "allow", 0] -> "roles[1].allow[0]"
+const formatPath = (keys: ReadonlyArray<PropertyKey>) =>
+  keys
+    .map((key, i) =>
+      typeof key === "number"
+        ? `[${key}]`
+        : i === 0
+          ? String(key)
+          : `.${String(key)}`,
+    )
+    .join("") || "(root)";
+
+const decodePolicyFile = Schema.decodeUnknownEither(PolicyFile, {
+  errors: "all",
+  onExcessProperty: "error",
+});
+
+// The tenant policy definitions a file describes
+export const definitionsOf = (file: PolicyFile) => {
+  const byName = (roles: PolicyFile["roles"]): PolicyDefinition =>
+    Object.fromEntries(roles.map(({ name, ...role }) => [name, role]));
+  const roles = byName(file.roles);
+  return {
+    ...Record.map(file.tenants ?? {}, (overrides) => ({
+      ...roles,
+      ...byName(overrides),
+    })),
+    [DEFAULT_TENANT]: roles,
+  };
+};
+
+// The path of role `name` as `tenant` sees it: its own override, or else
+// the role every tenant shares
+const rolePath = (parsed: PolicyFile, tenant: string, name: string) => {
+  const overrides =
+    tenant === DEFAULT_TENANT ? [] : (parsed.tenants?.[tenant] ?? []);
+  const overridden = overrides.findIndex((role) => role.name === name);
+  if (overridden >= 0) {
+    return {
+      path: ["tenants", tenant, overridden],
+      role: overrides[overridden],
+    };
+  }
+  const shared = parsed.roles.findIndex((role) => role.name === name);
+  return { path: ["roles", shared], role: parsed.roles[shared] };
+};
+
+// A cycle or unknown role, at the `inherits` entry that leads to it. A
+// cycle is reported at a tenant's own role if it runs through one, since
+// that's what closed it.
+const inheritanceIssue = (
+  parsed: PolicyFile,
+  tenant: string,
+  error: PolicyError,
+): PolicyIssue => {
+  const links: ReadonlyArray<readonly [string, string]> =
+    error._tag === "UnknownRole"
+      ? [[error.inheritedBy, error.role]]
+      : error.cycle.slice(0, -1).map((name, i) => [name, error.cycle[i + 1]!]);
+  const located = links.map(([name, inherited]) => ({
+    ...rolePath(parsed, tenant, name),
+    inherited,
+  }));
+  const { path, role, inherited } =
+    located.find(({ path }) => path[0] === "tenants") ?? located[0]!;
+  const entry = role?.inherits?.indexOf(inherited) ?? -1;
+  return {
+    path: formatPath([...path, "inherits", ...(entry >= 0 ? [entry] : [])]),
+    message: error.message,
+  };
+};
+
+// Build every tenant's policy, reporting the first inheritance error where
+// it is in the file
+const buildFilePolicies = (file: string, parsed: PolicyFile) =>
+  Either.all(
+    Record.map(definitionsOf(parsed), (definition, tenant) =>
+      buildPolicy(definition).pipe(
+        Either.mapLeft(
+          (error) =>
+            new PolicyFileInvalid(file, [
+              inheritanceIssue(parsed, tenant, error),
+            ]),
+        ),
+      ),
+    ),
+  ) as Either.Either<TenantPolicies, PolicyFileInvalid>;
+
+// Validate the contents of a policy file, parsed from JSON or YAML
+export const parsePolicy = (
+  file: string,
+  contents: unknown,
+): Either.Either<TenantPolicies, PolicyFileInvalid> =>
+  decodePolicyFile(contents).pipe(
+    Either.mapLeft(
+      (error) =>
+        new PolicyFileInvalid(
+          file,
+          ParseResult.ArrayFormatter.formatErrorSync(error).map((issue) => ({
+            path: formatPath(issue.path),
+            message: issue.message,
+          })),
+        ),
+    ),
+    Either.flatMap((parsed) => buildFilePolicies(file, parsed)),
+  );
+
+// Read, parse and validate a policy file. `.yaml` and `.yml` are read as
+// YAML, anything else as JSON.
+export const loadPolicyFile = (file: string) =>
+  Effect.gen(function* () {
+    const text = yield* Effect.tryPromise({
+      try: () => readFile(file, "utf8"),
+      catch: (error) => new PolicyFileUnreadable(file, String(error)),
+    });
+    const contents = yield* Effect.try({
+      try: (): unknown =>
+        /\.ya?ml$/.test(file) ? Bun.YAML.parse(text) : JSON.parse(text),
+      catch: (error) => new PolicyFileUnreadable(file, String(error)),
+    });
+    return yield* parsePolicy(file, contents);
+  });
+
+// --- Service ---
+
+export interface LoadedPolicy {
+  // 1 for the policy loaded first, one more on every successful reload
+  readonly version: number;
+  readonly policies: TenantPolicies;
+}
+
+export class PolicySource extends Context.Tag("@app/PolicySource")<
+  PolicySource,
+  {
+    // The policy in effect. Read it once per decision: a reload replaces
+    // the whole value, so what was read is one consistent version.
+    readonly current: Effect.Effect<LoadedPolicy>;
+    // Load the policy again now. On failure the current one stays.
+    readonly reload: Effect.Effect<LoadedPolicy, PolicySourceError>;
+  }
+>() {}
+
+// =============================================================================
+// Static source
+// =============================================================================
+
+export const StaticPolicySource = (policies: TenantPolicies) =>
+  Layer.succeed(
+    PolicySource,
+    PolicySource.of({
+      current: Effect.succeed({ version: 1, policies }),
+      reload: Effect.succeed({ version: 1, policies }),
+    }),
+  );
+
+// =============================================================================
+// File source, reloaded on change
+// =============================================================================
+
+export interface FilePolicySourceOptions {
+  readonly path: string;
+  // How long to wait after a change before reloading, as editors often
+  // write a file in several steps. Default: 100 millis.
+  readonly debounce?: Duration.DurationInput;
+}
+
+export const makeFilePolicySource = (options: FilePolicySourceOptions) =>
+  Effect.gen(function* () {
+    const policies = yield* loadPolicyFile(options.path);
+    const ref = yield* Ref.make<LoadedPolicy>({ version: 1, policies });
+    // One reload at a time, so versions are handed out in order
+    const lock = yield* Effect.makeSemaphore(1);
+
+    const reload = loadPolicyFile(options.path).pipe(
+      Effect.flatMap((policies) =>
+        Ref.updateAndGet(ref, ({ version }) => ({
+          version: version + 1,
+          policies,
+        })),
+      ),
+      Effect.tap(({ version }) =>
+        Effect.log(`[Policy] Loaded version ${version} of ${options.path}`),
+      ),
+      Effect.tapError((error) =>
+        Effect.flatMap(Ref.get(ref), ({ version }) =>
+          Effect.logError(
+            `[Policy] Reload failed, keeping version ${version}. ${error.message}`,
+          ),
+        ),
+      ),
+      lock.withPermits(1),
+      Effect.withSpan("PolicySource.reload", {
+        attributes: { "policy.path": options.path },
+      }),
+    );
+
+    // Watch the directory rather than the file: editors often save by
+    // writing a new file and renaming it over the old one.
+    const changes = yield* Queue.sliding<void>(1);
+    yield* Effect.acquireRelease(
+      Effect.sync(() =>
+        watch(path.dirname(options.path), (_, filename) => {
+          if (filename === path.basename(options.path)) {
+            Queue.unsafeOffer(changes, undefined);
+          }
+        }),
+      ),
+      (watcher) => Effect.sync(() => watcher.close()),
+    );
+    yield* Queue.take(changes).pipe(
+      Effect.zipRight(Effect.sleep(options.debounce ?? Duration.millis(100))),
+      Effect.zipRight(Queue.takeAll(changes)),
+      Effect.zipRight(Effect.ignore(reload)),
+      Effect.forever,
+      Effect.forkScoped,
+    );
+
+    return PolicySource.of({ current: Ref.get(ref), reload });
+  });
+
+// Fails to build if the file can't be loaded
+export const FilePolicySource = (options: FilePolicySourceOptions) =>
+  Layer.scoped(PolicySource, makeFilePolicySource(options));
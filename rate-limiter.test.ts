@@ -0,0 +1,136 @@
+import { describe, expect, test } from "bun:test";
+import { Duration, Effect, Fiber, Layer, TestClock, TestContext } from "effect";
+import { LoggedInUser } from "./auth.ts";
+import {
+  RateLimited,
+  RateLimiter,
+  SlidingWindowRateLimiter,
+  slidingWindow,
+  TokenBucketRateLimiter,
+  tokenBucket,
+} from "./rate-limiter.ts";
+
+const run = <A, E>(
+  effect: Effect.Effect<A, E, RateLimiter>,
+  limiter: Layer.Layer<RateLimiter>,
+) =>
+  effect.pipe(
+    Effect.provide(Layer.merge(limiter, TestContext.TestContext)),
+    Effect.runPromise,
+  );
+
+const asUser = (id: string) =>
+  Effect.provideService(LoggedInUser, {
+    id,
+    email: `${id}@example.com`,
+    tenant: "acme",
+    roles: ["editor"],
+  });
+
+describe("TokenBucketRateLimiter", () => {
+  const limiter = TokenBucketRateLimiter({
+    capacity: 2,
+    refill: 1,
+    interval: "1 second",
+  });
+
+  test("allows a burst up to capacity, then fails with retry-after", async () => {
+    const error = await run(
+      Effect.gen(function* () {
+        const rateLimiter = yield* RateLimiter;
+        yield* rateLimiter.acquire;
+        yield* rateLimiter.acquire;
+        yield* TestClock.adjust("400 millis");
+        return yield* rateLimiter.acquire.pipe(Effect.flip);
+      }).pipe(asUser("alice")),
+      limiter,
+    );
+
+    expect(error).toBeInstanceOf(RateLimited);
+    expect(error.key).toBe("alice");
+    expect(Duration.toMillis(error.retryAfter)).toBe(600);
+  });
+
+  test("refills over time and keys users separately", async () => {
+    await run(
+      Effect.gen(function* () {
+        const rateLimiter = yield* RateLimiter;
+        yield* rateLimiter.acquire.pipe(asUser("alice"));
+        yield* rateLimiter.acquire.pipe(asUser("alice"));
+        yield* rateLimiter.acquire.pipe(asUser("bob"));
+        yield* TestClock.adjust("1 second");
+        yield* rateLimiter.acquire.pipe(asUser("alice"));
+      }),
+      limiter,
+    );
+  });
+
+  test("throttling sleeps until a token is refilled", async () => {
+    const waited = await run(
+      Effect.gen(function* () {
+        const rateLimiter = yield* RateLimiter;
+        yield* rateLimiter.throttleKey("client");
+        yield* rateLimiter.throttleKey("client");
+
+        const third = yield* Effect.fork(rateLimiter.throttleKey("client"));
+        yield* TestClock.adjust("999 millis");
+        const doneEarly = third.unsafePoll() !== null;
+        yield* TestClock.adjust("1 millis");
+        yield* Fiber.join(third);
+        return doneEarly;
+      }),
+      limiter,
+    );
+
+    expect(waited).toBe(false);
+  });
+});
+
+describe("SlidingWindowRateLimiter", () => {
+  test("frees a slot once the oldest one leaves the window", async () => {
+    const retryAfter = await run(
+      Effect.gen(function* () {
+        const rateLimiter = yield* RateLimiter;
+        yield* rateLimiter.acquireKey("ip");
+        yield* TestClock.adjust("300 millis");
+        yield* rateLimiter.acquireKey("ip");
+
+        const error = yield* rateLimiter.acquireKey("ip").pipe(Effect.flip);
+        yield* TestClock.adjust(error.retryAfter);
+        yield* rateLimiter.acquireKey("ip");
+        return Duration.toMillis(error.retryAfter);
+      }),
+      SlidingWindowRateLimiter({ limit: 2, window: "1 second" }),
+    );
+
+    expect(retryAfter).toBe(700);
+  });
+});
+
+describe("strategies", () => {
+  test("a token bucket drops a key once it has refilled", () => {
+    const bucket = tokenBucket({ capacity: 2, refill: 1, interval: 1000 });
+    bucket.take("alice", 0);
+    bucket.take("alice", 0);
+    bucket.take("bob", 500);
+    // alice is one token short, bob is full again
+    bucket.take("carol", 1500);
+    expect(bucket.size()).toBe(2);
+
+    bucket.take("carol", 2500);
+    expect(bucket.size()).toBe(1);
+    expect(bucket.take("alice", 2500)).toBeUndefined();
+  });
+
+  test("a sliding window drops a key once its window is empty", () => {
+    const window = slidingWindow({ limit: 1, window: 1000 });
+    window.take("alice", 0);
+    window.take("bob", 600);
+    window.take("carol", 1000);
+    expect(window.size()).toBe(2);
+
+    window.take("carol", 2000);
+    expect(window.size()).toBe(1);
+    expect(window.take("bob", 2000)).toBeUndefined();
+  });
+});
@@ -0,0 +1,223 @@
+import { Clock, Context, Duration, Effect, Layer, Metric } from "effect";
+import { LoggedInUser } from "./auth.ts";
+import { rateLimitWait } from "./telemetry.ts";
+
+// =============================================================================
+// Rate limiting - consuming a rate limit slot is tracked in types
+//
+// Slots are counted per key. `acquire` uses the current LoggedInUser's id,
+// `acquireKey` takes an explicit key (an API client, an IP, a tenant...).
+//
+// Two strategies:
+//   - token bucket: up to `capacity` tokens, `refill` tokens added every
+//     `interval`. Allows bursts up to the capacity.
+//   - sliding window: at most `limit` slots in any `window`-long period.
+//
+// Two ways to take a slot when none is free, picked by the caller:
+//   - acquire / acquireKey: fail fast with RateLimited, which says when to
+//     retry
+//   - throttle / throttleKey: sleep until one is free. Never fails, so
+//     RateLimited isn't in their error type.
+//
+// A key's state is dropped once it is back to where a new key starts (a full
+// bucket, an empty window), so keys that went idle don't pile up.
+//
+// All timing goes through the Effect Clock, so TestClock drives it in tests.
+// Each acquire runs in a "RateLimiter.acquire" span, and how long it waited
+// goes to the `rate_limiter.wait_ms` histogram (./telemetry.ts).
+// =============================================================================
+
+export class RateLimited extends Error {
+  readonly _tag = "RateLimited";
+  constructor(
+    readonly key: string,
+    readonly retryAfter: Duration.Duration,
+  ) {
+    super(
+      `Rate limit exceeded for "${key}", retry after ${Duration.format(retryAfter)}`,
+    );
+  }
+}
+
+// Rate limiter - consuming a rate limit slot is tracked in types
+export class RateLimiter extends Context.Tag("@app/RateLimiter")<
+  RateLimiter,
+  {
+    // Take a slot keyed by the current user
+    readonly acquire: Effect.Effect<void, RateLimited, LoggedInUser>;
+    // Take a slot for an explicit key
+    readonly acquireKey: (key: string) => Effect.Effect<void, RateLimited>;
+    // Like acquire / acquireKey, but wait for the slot instead of failing
+    readonly throttle: Effect.Effect<void, never, LoggedInUser>;
+    readonly throttleKey: (key: string) => Effect.Effect<void>;
+  }
+>() {}
+
+export interface TokenBucketOptions {
+  readonly capacity: number;
+  // Tokens added every `interval`, never exceeding `capacity`
+  readonly refill: number;
+  readonly interval: Duration.DurationInput;
+}
+
+export interface SlidingWindowOptions {
+  readonly limit: number;
+  readonly window: Duration.DurationInput;
+}
+
+// --- Strategies ---
+
+export interface Strategy {
+  // Try to take a slot for `key` at time `now`. Returns undefined when a slot
+  // was taken, or how many milliseconds until one could be.
+  readonly take: (key: string, now: number) => number | undefined;
+  // Keys with state kept, for tests
+  readonly size: () => number;
+}
+
+// Drops the entries `idle` says are back to their initial state. Runs at
+// most once every `every` milliseconds, from `take`.
+const sweeper = <S>(
+  states: Map<string, S>,
+  every: number,
+  idle: (state: S, now: number) => boolean,
+) => {
+  let sweptAt = 0;
+  return (now: number) => {
+    if (now - sweptAt < every) return;
+    sweptAt = now;
+    for (const [key, state] of states) {
+      if (idle(state, now)) states.delete(key);
+    }
+  };
+};
+
+export const tokenBucket = (options: TokenBucketOptions): Strategy => {
+  const interval = Duration.toMillis(options.interval);
+  const buckets = new Map<string, { tokens: number; refilledAt: number }>();
+  const tokensAt = (
+    bucket: { tokens: number; refilledAt: number },
+    now: number,
+  ) =>
+    bucket.tokens +
+    Math.floor((now - bucket.refilledAt) / interval) * options.refill;
+  const sweep = sweeper(
+    buckets,
+    interval,
+    (bucket, now) => tokensAt(bucket, now) >= options.capacity,
+  );
+
+  return {
+    take: (key, now) => {
+      sweep(now);
+      const bucket = buckets.get(key) ?? {
+        tokens: options.capacity,
+        refilledAt: now,
+      };
+      buckets.set(key, bucket);
+
+      const intervals = Math.floor((now - bucket.refilledAt) / interval);
+      if (intervals > 0) {
+        bucket.tokens = Math.min(options.capacity, tokensAt(bucket, now));
+        bucket.refilledAt += intervals * interval;
+      }
+
+      if (bucket.tokens >= 1) {
+        bucket.tokens--;
+        return undefined;
+      }
+      return bucket.refilledAt + interval - now;
+    },
+    size: () => buckets.size,
+  };
+};
+
+export const slidingWindow = (options: SlidingWindowOptions): Strategy => {
+  const window = Duration.toMillis(options.window);
+  const logs = new Map<string, Array<number>>();
+  // Slots are logged in order, so the last one is the newest
+  const sweep = sweeper(
+    logs,
+    window,
+    (log, now) => (log.at(-1) ?? -Infinity) <= now - window,
+  );
+
+  return {
+    take: (key, now) => {
+      sweep(now);
+      const recent = (logs.get(key) ?? []).filter((at) => at > now - window);
+      logs.set(key, recent);
+
+      if (recent.length < options.limit) {
+        recent.push(now);
+        return undefined;
+      }
+      return recent[0]! + window - now;
+    },
+    size: () => logs.size,
+  };
+};
+
+// --- Implementation ---
+
+const makeRateLimiter = (strategy: Strategy) => {
+  const take = (key: string): Effect.Effect<void, RateLimited> =>
+    Effect.gen(function* () {
+      const now = yield* Clock.currentTimeMillis;
+      const retryAfter = strategy.take(key, now);
+      if (retryAfter === undefined) {
+        return yield* Effect.log(`[RateLimit] Acquired slot for "${key}"`);
+      }
+      return yield* Effect.fail(
+        new RateLimited(key, Duration.millis(retryAfter)),
+      );
+    });
+
+  const wait = (key: string): Effect.Effect<void> =>
+    take(key).pipe(
+      Effect.catchTag("RateLimited", (limited) =>
+        Effect.log(
+          `[RateLimit] "${key}" waiting ${Duration.toMillis(limited.retryAfter)}ms for a slot`,
+        ).pipe(
+          Effect.zipRight(Effect.sleep(limited.retryAfter)),
+          Effect.zipRight(wait(key)),
+        ),
+      ),
+    );
+
+  // Runs `slot` (take or wait) in a span and records how long it waited.
+  // `attributes` are added to the span.
+  const measured = <E>(
+    key: string,
+    slot: Effect.Effect<void, E>,
+    attributes: Record<string, unknown> = {},
+  ) =>
+    Effect.gen(function* () {
+      const start = yield* Clock.currentTimeMillis;
+      yield* slot;
+      const waited = (yield* Clock.currentTimeMillis) - start;
+      yield* Effect.annotateCurrentSpan("rate_limit.wait_ms", waited);
+      yield* Metric.update(Metric.tagged(rateLimitWait, "key", key), waited);
+    }).pipe(
+      Effect.withSpan("RateLimiter.acquire", {
+        attributes: { "rate_limit.key": key, ...attributes },
+      }),
+    );
+
+  return RateLimiter.of({
+    acquire: Effect.flatMap(LoggedInUser, (user) =>
+      measured(user.id, take(user.id), { "user.id": user.id }),
+    ),
+    acquireKey: (key) => measured(key, take(key)),
+    throttle: Effect.flatMap(LoggedInUser, (user) =>
+      measured(user.id, wait(user.id), { "user.id": user.id }),
+    ),
+    throttleKey: (key) => measured(key, wait(key)),
+  });
+};
+
+export const TokenBucketRateLimiter = (options: TokenBucketOptions) =>
+  Layer.sync(RateLimiter, () => makeRateLimiter(tokenBucket(options)));
+
+export const SlidingWindowRateLimiter = (options: SlidingWindowOptions) =>
+  Layer.sync(RateLimiter, () => makeRateLimiter(slidingWindow(options)));
@@ -0,0 +1,136 @@
+import { beforeAll, describe, expect, test } from "bun:test";
+import { buildManifest, type Manifest, toMarkdown } from "./rbac-manifest.ts";
+
+// The manifest of ./rbac.ts and of ./fixtures/manifest, whose entry points
+// need a permission no role grants and one globex grants differently
+
+const fixture = "fixtures/manifest/entry-points.ts";
+
+// Building the program takes a few seconds
+let manifest: Manifest = { entryPoints: [], ungranted: [] };
+beforeAll(() => {
+  manifest = buildManifest(["rbac.ts", fixture]);
+}, 60_000);
+
+const entryPoint = (name: string) => {
+  const found = manifest.entryPoints.find((e) => e.name === name);
+  if (!found) throw new Error(`No entry point ${name}`);
+  return {
+    ...found,
+    permissions: [...found.permissions].sort((a, b) =>
+      a.action.localeCompare(b.action),
+    ),
+  };
+};
+
+const everyRole = ["viewer", "editor", "admin", "platform-admin"];
+const editors = ["editor", "admin", "platform-admin"];
+
+describe("buildManifest", () => {
+  test.each([
+    {
+      name: "listPosts",
+      permissions: [
+        {
+          action: "read",
+          resource: "posts",
+          ownOnly: false,
+          grantedBy: everyRole,
+        },
+      ],
+      markers: [],
+      services: [],
+    },
+    {
+      name: "createPost",
+      permissions: [
+        {
+          action: "write",
+          resource: "posts",
+          ownOnly: false,
+          grantedBy: editors,
+        },
+      ],
+      markers: [],
+      services: [],
+    },
+    {
+      name: "deletePost",
+      permissions: [
+        {
+          action: "delete",
+          resource: "posts",
+          ownOnly: true,
+          grantedBy: editors,
+        },
+        {
+          action: "read",
+          resource: "posts",
+          ownOnly: false,
+          grantedBy: everyRole,
+        },
+      ],
+      markers: [],
+      services: [],
+    },
+    {
+      name: "publishWorkflow",
+      permissions: [
+        {
+          action: "read",
+          resource: "posts",
+          ownOnly: false,
+          grantedBy: everyRole,
+        },
+        {
+          action: "write",
+          resource: "posts",
+          ownOnly: false,
+          grantedBy: editors,
+        },
+      ],
+      markers: ["Transaction"],
+      services: ["Outbox"],
+    },
+  ])("$name", ({ name, permissions, markers, services }) => {
+    expect(entryPoint(name)).toEqual({
+      name,
+      file: "rbac.ts",
+      permissions: permissions.map((p) => ({ ...p, tenantGrants: {} })),
+      markers,
+      services,
+    });
+  });
+
+  test("a permission no role grants is flagged", () => {
+    expect(entryPoint("launchRockets").permissions).toEqual([
+      {
+        action: "launch",
+        resource: "rockets",
+        ownOnly: false,
+        grantedBy: [],
+        tenantGrants: {},
+      },
+    ]);
+    expect(manifest.ungranted).toEqual(["launch:rockets"]);
+    expect(toMarkdown(manifest)).toContain(
+      "`launch:rockets` (⚠️ granted by no role)",
+    );
+  });
+
+  test("a tenant's own policy is evaluated too", () => {
+    // Globex editors can't write users
+    expect(entryPoint("renameUser").permissions).toEqual([
+      {
+        action: "write",
+        resource: "users",
+        ownOnly: false,
+        grantedBy: editors,
+        tenantGrants: { globex: ["admin", "platform-admin"] },
+      },
+    ]);
+    expect(toMarkdown(manifest)).toContain(
+      "`write:users` (editor, admin, platform-admin; globex: admin, platform-admin)",
+    );
+  });
+});
@@ -0,0 +1,311 @@
+import * as path from "node:path";
+import ts from "typescript";
+import { DEFAULT_TENANT, decide, type Policy } from "./rbac-policy.ts";
+import { rolePermissions } from "./rbac.ts";
+
+// =============================================================================
+// Permission manifest - what each entry point needs, for security review
+//
+// The permissions a function needs are already in its type: every
+// `Requires<Action, Resource>` left in the R of the Effect it returns. This
+// reads those types with the TypeScript compiler API, so the report can't
+// drift from what the compiler enforces.
+//
+//   bun run rbac-manifest                     Markdown report on stdout
+//   bun run rbac-manifest --format json       the same as JSON
+//   bun run rbac-manifest --out manifest.md   write to a file instead
+//   bun run rbac-manifest rbac.ts             only the given files
+//
+// Every exported, non-generic function returning an Effect is listed with
+// its requirements split into:
+//   - permissions: Requires<A, R> and RequiresOwn<A, R>
+//   - markers: LoggedInUser, Transaction, Locked...
+//   - services: everything else (CosmosClient, RateLimiter...)
+//
+// Each permission is checked against every tenant's policy in
+// `rolePermissions`: the roles granting it in the default ("*") policy are
+// listed, along with the tenants whose own policy grants it differently.
+// Permissions that no role grants, in the default policy or in a tenant's,
+// are flagged, and the command exits with code 1 when there are any.
+// =============================================================================
+
+// Tags that mark a capability rather than provide a service
+const MARKERS = new Set([
+  "CurrentUser",
+  "LoggedInUser",
+  "Tenant",
+  "Transaction",
+  "Locked",
+  "Scope",
+]);
+
+export interface Permission {
+  readonly action: string;
+  readonly resource: string;
+  // From RequiresOwn: granted per resource instance, by ownership
+  readonly ownOnly: boolean;
+  // Roles whose rules grant it in the default ("*") policy (own resources
+  // included for ownOnly)
+  readonly grantedBy: ReadonlyArray<string>;
+  // Tenant -> roles granting it, for the tenants whose policy grants it to
+  // other roles than the default one does
+  readonly tenantGrants: Readonly<Record<string, ReadonlyArray<string>>>;
+}
+
+export interface EntryPoint {
+  readonly name: string;
+  readonly file: string;
+  readonly permissions: ReadonlyArray<Permission>;
+  readonly markers: ReadonlyArray<string>;
+  readonly services: ReadonlyArray<string>;
+}
+
+export interface Manifest {
+  readonly entryPoints: ReadonlyArray<EntryPoint>;
+  // "action:resource" of every permission no role grants, or
+  // "action:resource in <tenant>" when only that tenant's policy grants it
+  // to no role
+  readonly ungranted: ReadonlyArray<string>;
+}
+
+// --- Reading types ---
+
+export const loadProgram = (files: ReadonlyArray<string>) => {
+  const configPath = ts.findConfigFile(process.cwd(), ts.sys.fileExists);
+  if (!configPath) throw new Error("No tsconfig.json found");
+  const config = ts.parseJsonConfigFileContent(
+    ts.readConfigFile(configPath, ts.sys.readFile).config,
+    ts.sys,
+    path.dirname(configPath),
+  );
+  return ts.createProgram(
+    files.length > 0 ? files.map((f) => path.resolve(f)) : config.fileNames,
+    config.options,
+  );
+};
+
+// The R of an Effect type, read off its variance marker
+// (`[EffectTypeId]: { _R: (_: never) => R }`), or undefined if not an Effect
+const requirementsOf = (checker: ts.TypeChecker, type: ts.Type) => {
+  const variance = type
+    .getProperties()
+    .find((p) => p.escapedName.toString().startsWith("__@EffectTypeId"));
+  if (!variance) return undefined;
+  const r = checker.getTypeOfSymbol(variance).getProperty("_R");
+  if (!r) return undefined;
+  const [signature] = checker.getTypeOfSymbol(r).getCallSignatures();
+  return signature?.getReturnType();
+};
+
+const membersOf = (type: ts.Type): ReadonlyArray<ts.Type> =>
+  type.flags & ts.TypeFlags.Never ? [] : type.isUnion() ? type.types : [type];
+
+// `Requires<"read", "posts">` and `RequiresOwn<...>` carry their permission
+// in the `_tag` string literal
+const permissionOf = (checker: ts.TypeChecker, type: ts.Type) => {
+  const tag = type.getProperty("_tag");
+  if (!tag) return undefined;
+  const literal = checker.getTypeOfSymbol(tag);
+  if (!literal.isStringLiteral()) return undefined;
+  const match = /^(Requires|RequiresOwn)<(.+), (.+)>$/.exec(literal.value);
+  if (!match) return undefined;
+  const [, kind, action = "", resource = ""] = match;
+  return { action, resource, ownOnly: kind === "RequiresOwn" };
+};
+
+const rolesGranting = (
+  policy: Policy,
+  action: string,
+  resource: string,
+  ownOnly: boolean,
+) =>
+  Object.keys(policy.definition).filter(
+    (role) =>
+      decide(policy, [role], action, resource, { owner: ownOnly }).allowed,
+  );
+
+// The roles granting a permission in the default policy, and in each tenant
+// whose own policy differs from it
+const grantsOf = (action: string, resource: string, ownOnly: boolean) => {
+  const grantedBy = rolesGranting(
+    rolePermissions[DEFAULT_TENANT],
+    action,
+    resource,
+    ownOnly,
+  );
+  const tenantGrants: Record<string, ReadonlyArray<string>> = {};
+  for (const [tenant, policy] of Object.entries(rolePermissions)) {
+    if (tenant === DEFAULT_TENANT) continue;
+    const roles = rolesGranting(policy, action, resource, ownOnly);
+    if (roles.join() !== grantedBy.join()) tenantGrants[tenant] = roles;
+  }
+  return { grantedBy, tenantGrants };
+};
+
+export const buildManifest = (files: ReadonlyArray<string> = []): Manifest => {
+  const program = loadProgram(files);
+  const checker = program.getTypeChecker();
+  const root = process.cwd();
+  const entryPoints: Array<EntryPoint> = [];
+
+  for (const source of program.getSourceFiles()) {
+    if (source.isDeclarationFile || source.fileName.includes("node_modules")) {
+      continue;
+    }
+    if (!program.getRootFileNames().includes(source.fileName)) continue;
+    const module = checker.getSymbolAtLocation(source);
+    if (!module) continue;
+
+    for (const exported of checker.getExportsOfModule(module)) {
+      const symbol =
+        exported.flags & ts.SymbolFlags.Alias
+          ? checker.getAliasedSymbol(exported)
+          : exported;
+      const declaration = symbol.valueDeclaration;
+      if (!declaration || ts.isClassDeclaration(declaration)) continue;
+
+      const type = checker.getTypeOfSymbolAtLocation(symbol, declaration);
+      // Generic functions (authorize, Mutex.release...) transform other
+      // effects' requirements; only concrete entry points are listed
+      const returned = type
+        .getCallSignatures()
+        .filter((s) => !s.typeParameters?.length)
+        .map((s) => s.getReturnType());
+      const requirements = [type, ...returned]
+        .map((t) => requirementsOf(checker, t))
+        .find((r) => r !== undefined);
+      // Nothing to review when nothing is required (buildPolicy, makeMutex...)
+      if (!requirements || membersOf(requirements).length === 0) continue;
+
+      const permissions: Array<Permission> = [];
+      const markers: Array<string> = [];
+      const services: Array<string> = [];
+      for (const member of membersOf(requirements)) {
+        const permission = permissionOf(checker, member);
+        const name = checker.typeToString(member);
+        if (permission) {
+          permissions.push({
+            ...permission,
+            ...grantsOf(
+              permission.action,
+              permission.resource,
+              permission.ownOnly,
+            ),
+          });
+        } else if (MARKERS.has(name)) {
+          markers.push(name);
+        } else {
+          services.push(name);
+        }
+      }
+
+      entryPoints.push({
+        name: exported.name,
+        file: path.relative(root, source.fileName),
+        permissions,
+        markers: markers.sort(),
+        services: services.sort(),
+      });
+    }
+  }
+
+  const ungranted = new Set(
+    entryPoints.flatMap((e) =>
+      e.permissions.flatMap((p) => {
+        const name = `${p.action}:${p.resource}`;
+        return [
+          ...(p.grantedBy.length === 0 ? [name] : []),
+          ...Object.entries(p.tenantGrants)
+            .filter(([, roles]) => roles.length === 0)
+            .map(([tenant]) => `${name} in ${tenant}`),
+        ];
+      }),
+    ),
+  );
+  return { entryPoints, ungranted: [...ungranted].sort() };
+};
+
+// --- Reports ---
+
+const describeRoles = (roles: ReadonlyArray<string>) =>
+  roles.length > 0 ? roles.join(", ") : "⚠️ granted by no role";
+
+const describePermission = (p: Permission) =>
+  (p.ownOnly ? "own " : "") +
+  `\`${p.action}:${p.resource}\` (${describeRoles(p.grantedBy)}` +
+  Object.entries(p.tenantGrants)
+    .map(([tenant, roles]) => `; ${tenant}: ${describeRoles(roles)}`)
+    .join("") +
+  ")";
+
+export const toMarkdown = (manifest: Manifest) => {
+  const list = (items: ReadonlyArray<string>) =>
+    items.length > 0 ? items.join(", ") : "-";
+  const lines = [
+    "# Permission manifest",
+    "",
+    "Permissions list the roles that grant them, followed by the tenants whose own policy grants them to other roles.",
+    "",
+    "| Entry point | File | Permissions | Markers | Services |",
+    "| --- | --- | --- | --- | --- |",
+    ...manifest.entryPoints.map((e) =>
+      [
+        "",
+        `\`${e.name}\``,
+        e.file,
+        list(e.permissions.map(describePermission)),
+        list(e.markers.map((m) => `\`${m}\``)),
+        list(e.services.map((s) => `\`${s}\``)),
+        "",
+      ]
+        .join(" | ")
+        .trim(),
+    ),
+    "",
+  ];
+  if (manifest.ungranted.length > 0) {
+    lines.push(
+      "## Ungranted permissions",
+      "",
+      "Required by an entry point but granted by no role in `rolePermissions`, in every tenant or only in the one named:",
+      "",
+      ...manifest.ungranted.map((p) => `- \`${p}\``),
+      "",
+    );
+  }
+  return lines.join("\n");
+};
+
+// --- CLI ---
+
+if (import.meta.main) {
+  const args = process.argv.slice(2);
+  const option = (name: string) => {
+    const index = args.indexOf(name);
+    if (index === -1) return undefined;
+    const [value] = args.splice(index, 2).slice(1);
+    if (value === undefined) throw new Error(`${name} needs a value`);
+    return value;
+  };
+
+  const format = option("--format") ?? "markdown";
+  const out = option("--out");
+  if (format !== "markdown" && format !== "json") {
+    throw new Error(`Unknown format "${format}", use markdown or json`);
+  }
+
+  const manifest = buildManifest(args);
+  const report =
+    format === "json"
+      ? JSON.stringify(manifest, null, 2) + "\n"
+      : toMarkdown(manifest);
+  if (out) await Bun.write(out, report);
+  else process.stdout.write(report);
+
+  if (manifest.ungranted.length > 0) {
+    console.error(
+      `[Manifest] Granted by no role: ${manifest.ungranted.join(", ")}`,
+    );
+    process.exitCode = 1;
+  }
+}
@@ -0,0 +1,142 @@
+import { describe, expect, test } from "bun:test";
+import { Either, Option } from "effect";
+import {
+  buildPolicy,
+  decide,
+  parsePermission,
+  type PolicyDefinition,
+  PolicyCycle,
+  UnknownRole,
+} from "./rbac-policy.ts";
+
+// The policy model on its own: building definitions and deciding requests,
+// one row per case
+
+const build = (definition: PolicyDefinition) =>
+  Either.getOrThrow(buildPolicy(definition));
+
+describe("buildPolicy", () => {
+  test.each([
+    {
+      name: "a role inheriting itself",
+      definition: { a: { inherits: ["a"] } },
+      cycle: ["a", "a"],
+    },
+    {
+      name: "two roles inheriting each other",
+      definition: { a: { inherits: ["b"] }, b: { inherits: ["a"] } },
+      cycle: ["a", "b", "a"],
+    },
+    {
+      name: "a longer cycle below a valid role",
+      definition: {
+        viewer: {},
+        a: { inherits: ["viewer", "b"] },
+        b: { inherits: ["c"] },
+        c: { inherits: ["a"] },
+      },
+      cycle: ["a", "b", "c", "a"],
+    },
+  ])("rejects $name as a PolicyCycle", ({ definition, cycle }) => {
+    const error = Option.getOrThrow(Either.getLeft(buildPolicy(definition)));
+
+    expect(error).toBeInstanceOf(PolicyCycle);
+    expect(error).toEqual(new PolicyCycle(cycle));
+  });
+
+  test.each([
+    {
+      name: "an unknown role",
+      definition: { editor: { inherits: ["writer"] } },
+      unknown: new UnknownRole("writer", "editor"),
+    },
+    {
+      name: "an unknown role further down",
+      definition: {
+        admin: { inherits: ["editor"] },
+        editor: { inherits: ["viewer", "writer"] },
+        viewer: {},
+      },
+      unknown: new UnknownRole("writer", "editor"),
+    },
+  ])("rejects inheriting $name", ({ definition, unknown }) => {
+    const error = Option.getOrThrow(Either.getLeft(buildPolicy(definition)));
+
+    expect(error).toBeInstanceOf(UnknownRole);
+    expect(error).toEqual(unknown);
+  });
+});
+
+describe("decide", () => {
+  const policy = build({
+    viewer: { allow: ["read:*"], deny: ["read:secrets"] },
+    editor: {
+      inherits: ["viewer"],
+      allow: ["*:posts", "write:drafts"],
+      allowOwn: ["delete:comments"],
+    },
+    admin: { inherits: ["editor"], allow: ["*:*"] },
+    moderator: { inherits: ["editor"] },
+    banned: { deny: ["*:*"] },
+  });
+
+  test.each([
+    // Wildcards on either side
+    { roles: ["viewer"], permission: "read:posts", allowed: true },
+    { roles: ["viewer"], permission: "write:posts", allowed: false },
+    { roles: ["editor"], permission: "publish:posts", allowed: true },
+    { roles: ["editor"], permission: "write:drafts", allowed: true },
+    { roles: ["editor"], permission: "write:users", allowed: false },
+    { roles: ["admin"], permission: "delete:users", allowed: true },
+    // A wildcard resource doesn't cover a field, a wildcard action does
+    { roles: ["editor"], permission: "write:posts.title", allowed: false },
+    { roles: ["viewer"], permission: "read:users.email", allowed: true },
+    // A resource with a colon is split off at the first one
+    { roles: ["editor"], permission: "write:posts:drafts", allowed: false },
+    { roles: ["viewer"], permission: "read:posts:drafts", allowed: true },
+    // Deny wins over allow, however deep it was inherited
+    { roles: ["viewer"], permission: "read:secrets", allowed: false },
+    { roles: ["editor"], permission: "read:secrets", allowed: false },
+    { roles: ["admin"], permission: "read:secrets", allowed: false },
+    // ... and across roles held side by side
+    { roles: ["admin", "banned"], permission: "read:posts", allowed: false },
+    // Nothing matches
+    { roles: [], permission: "read:posts", allowed: false },
+    { roles: ["unknown"], permission: "read:posts", allowed: false },
+  ])("$roles -> $permission: $allowed", ({ roles, permission, allowed }) => {
+    const [action, resource] = parsePermission(permission);
+
+    expect(decide(policy, roles, action, resource).allowed).toBe(allowed);
+  });
+
+  test.each([
+    { owner: true, allowed: true },
+    { owner: false, allowed: false },
+    // Type-level checks don't know the owner
+    { owner: undefined, allowed: false },
+  ])("allowOwn with owner: $owner -> $allowed", ({ owner, allowed }) => {
+    const options = owner === undefined ? {} : { owner };
+
+    expect(
+      decide(policy, ["editor"], "delete", "comments", options).allowed,
+    ).toBe(allowed);
+    // Inherited like any other rule
+    expect(
+      decide(policy, ["moderator"], "delete", "comments", options).allowed,
+    ).toBe(allowed);
+  });
+
+  test("the decision names the rule and the inheritance path", () => {
+    const denied = decide(policy, ["admin"], "read", "secrets");
+
+    expect(denied.rule).toMatchObject({
+      effect: "deny",
+      pattern: "read:secrets",
+      role: "viewer",
+      via: ["admin", "editor", "viewer"],
+    });
+    expect(denied.explanation).toBe(
+      `"read:secrets" denied by rule "read:secrets" of role "viewer" (inherited via admin -> editor -> viewer)`,
+    );
+  });
+});
@@ -0,0 +1,253 @@
+import { Either, Record } from "effect";
+
+// =============================================================================
+// RBAC policy model
+//
+// Roles grant permissions with `allow` rules, take them away with `deny`
+// rules, and inherit every rule of the roles listed in `inherits`.
+// A rule is an "action:resource" pattern where either side may be `*`:
+//
+//   "read:posts"   read posts
+//   "*:posts"      any action on posts
+//   "read:*"       read anything
+//
+// A restricted field of a resource is a resource of its own, e.g.
+// "read:users.email" to see the email of users: "*:users" doesn't cover it,
+// "read:*" does.
+//
+// `allowOwn` rules only apply to resources the user owns, e.g. an editor
+// with `allowOwn: ["delete:posts"]` may delete their own posts only.
+//
+// Resolution: a matching deny rule always wins over any allow rule; with no
+// matching rule at all, the request is denied.
+//
+// Each tenant may define its roles differently (buildTenantPolicies); a
+// tenant without a definition of its own uses the "*" one.
+// =============================================================================
+
+export type PermissionPattern = `${string}:${string}`;
+
+export interface RoleDefinition {
+  readonly inherits?: ReadonlyArray<string>;
+  readonly allow?: ReadonlyArray<PermissionPattern>;
+  readonly allowOwn?: ReadonlyArray<PermissionPattern>;
+  readonly deny?: ReadonlyArray<PermissionPattern>;
+}
+
+export type PolicyDefinition = Readonly<Record<string, RoleDefinition>>;
+
+// A rule together with the role that declared it. `via` is the inheritance
+// path from the role the user holds to that role, e.g. ["admin", "editor"].
+export interface ResolvedRule {
+  readonly effect: "allow" | "deny";
+  // Only matches resources owned by the user (from `allowOwn`)
+  readonly ownOnly: boolean;
+  readonly pattern: PermissionPattern;
+  readonly role: string;
+  readonly via: ReadonlyArray<string>;
+}
+
+export interface Policy {
+  readonly definition: PolicyDefinition;
+  // Every rule each role ends up with, its own and inherited
+  readonly rules: ReadonlyMap<string, ReadonlyArray<ResolvedRule>>;
+}
+
+export interface Decision {
+  readonly allowed: boolean;
+  readonly permission: string;
+  // The rule that decided, or undefined when no rule matched
+  readonly rule: ResolvedRule | undefined;
+  // Human readable reason, for support tooling and error messages
+  readonly explanation: string;
+}
+
+// --- Errors ---
+
+export class PolicyCycle extends Error {
+  readonly _tag = "PolicyCycle";
+  constructor(readonly cycle: ReadonlyArray<string>) {
+    super(`Role inheritance cycle: ${cycle.join(" -> ")}`);
+  }
+}
+
+export class UnknownRole extends Error {
+  readonly _tag = "UnknownRole";
+  constructor(
+    readonly role: string,
+    readonly inheritedBy: string,
+  ) {
+    super(`Role "${inheritedBy}" inherits unknown role "${role}"`);
+  }
+}
+
+export type PolicyError = PolicyCycle | UnknownRole;
+
+// --- Building ---
+
+// Resolve inheritance for every role, rejecting cycles and unknown roles
+export const buildPolicy = (
+  definition: PolicyDefinition,
+): Either.Either<Policy, PolicyError> => {
+  const rules = new Map<string, ReadonlyArray<ResolvedRule>>();
+
+  const resolve = (
+    role: string,
+    path: ReadonlyArray<string>,
+  ): ReadonlyArray<ResolvedRule> => {
+    if (path.includes(role)) {
+      throw new PolicyCycle([...path.slice(path.indexOf(role)), role]);
+    }
+    const cached = rules.get(role);
+    if (cached) return cached;
+
+    const {
+      inherits = [],
+      allow = [],
+      allowOwn = [],
+      deny = [],
+    } = definition[role] ?? {};
+    const inherited = inherits.flatMap((parent) => {
+      if (!(parent in definition)) throw new UnknownRole(parent, role);
+      return resolve(parent, [...path, role]).map((rule) => ({
+        ...rule,
+        via: [role, ...rule.via],
+      }));
+    });
+
+    const rulesOf = (
+      effect: "allow" | "deny",
+      ownOnly: boolean,
+      patterns: ReadonlyArray<PermissionPattern>,
+    ) =>
+      patterns.map((pattern) => ({
+        effect,
+        ownOnly,
+        pattern,
+        role,
+        via: [role],
+      }));
+
+    const resolved: ReadonlyArray<ResolvedRule> = [
+      ...rulesOf("deny", false, deny),
+      ...rulesOf("allow", false, allow),
+      ...rulesOf("allow", true, allowOwn),
+      ...inherited,
+    ];
+    rules.set(role, resolved);
+    return resolved;
+  };
+
+  try {
+    for (const role of Object.keys(definition)) resolve(role, []);
+    return Either.right({ definition, rules });
+  } catch (error) {
+    if (error instanceof PolicyCycle || error instanceof UnknownRole) {
+      return Either.left(error);
+    }
+    throw error;
+  }
+};
+
+// --- Tenants ---
+
+// Role definitions for tenants that don't have their own
+export const DEFAULT_TENANT = "*";
+
+export type TenantPolicyDefinitions = Readonly<
+  Record<string, PolicyDefinition>
+> & { readonly [DEFAULT_TENANT]: PolicyDefinition };
+
+export type TenantPolicies = Readonly<Record<string, Policy>> & {
+  readonly [DEFAULT_TENANT]: Policy;
+};
+
+// buildPolicy for every tenant, failing on the first invalid definition
+export const buildTenantPolicies = (
+  definitions: TenantPolicyDefinitions,
+): Either.Either<TenantPolicies, PolicyError> =>
+  Either.all(Record.map(definitions, buildPolicy)) as Either.Either<
+    TenantPolicies,
+    PolicyError
+  >;
+
+// The policy that applies in `tenant`
+export const policyFor = (policies: TenantPolicies, tenant: string) =>
+  policies[tenant] ?? policies[DEFAULT_TENANT];
+
+// --- Deciding ---
+
+// Split "action:resource" at its first colon, like the `${infer A}:${infer R}`
+// types do: "read:posts:drafts" is action "read" on resource "posts:drafts"
+export const parsePermission = (
+  permission: PermissionPattern,
+): readonly [action: string, resource: string] => {
+  const colon = permission.indexOf(":");
+  return [permission.slice(0, colon), permission.slice(colon + 1)];
+};
+
+export const matches = (
+  pattern: PermissionPattern,
+  action: string,
+  resource: string,
+) => {
+  const [patternAction, patternResource] = parsePermission(pattern);
+  return (
+    (patternAction === "*" || patternAction === action) &&
+    (patternResource === "*" || patternResource === resource)
+  );
+};
+
+const describe = (rule: ResolvedRule) =>
+  (rule.ownOnly ? "(own resources only) " : "") +
+  (rule.via.length > 1
+    ? `of role "${rule.role}" (inherited via ${rule.via.join(" -> ")})`
+    : `of role "${rule.role}"`);
+
+export interface DecideOptions {
+  // Whether the user owns the resource instance being accessed. Leave out
+  // for type-level checks, where `allowOwn` rules never match.
+  readonly owner?: boolean;
+}
+
+// Decide whether any of `roles` may perform `action` on `resource`
+export const decide = (
+  policy: Policy,
+  roles: ReadonlyArray<string>,
+  action: string,
+  resource: string,
+  options: DecideOptions = {},
+): Decision => {
+  const permission = `${action}:${resource}`;
+  const matching = roles
+    .flatMap((role) => policy.rules.get(role) ?? [])
+    .filter((rule) => !rule.ownOnly || options.owner === true)
+    .filter((rule) => matches(rule.pattern, action, resource));
+
+  const deny = matching.find((rule) => rule.effect === "deny");
+  if (deny) {
+    return {
+      allowed: false,
+      permission,
+      rule: deny,
+      explanation: `"${permission}" denied by rule "${deny.pattern}" ${describe(deny)}`,
+    };
+  }
+
+  const allow = matching.find((rule) => rule.effect === "allow");
+  if (allow) {
+    return {
+      allowed: true,
+      permission,
+      rule: allow,
+      explanation: `"${permission}" granted by rule "${allow.pattern}" ${describe(allow)}`,
+    };
+  }
+
+  return {
+    allowed: false,
+    permission,
+    rule: undefined,
+    explanation: `"${permission}" is not granted by any of the roles [${roles.join(", ")}]`,
+  };
+};
@@ -1,4 +1,44 @@
-import { Context, Effect, Layer } from "effect";
+import {
+  Context,
+  Duration,
+  Effect,
+  Either,
+  Layer,
+  Metric,
+  Option,
+} from "effect";
+import {
+  AuthProvider,
+  JwtAuthProvider,
+  signJwt,
+  type TokenError,
+} from "./auth-provider.ts";
+import {
+  AuditLog,
+  InMemoryAuditLog,
+  type PermissionDecided,
+} from "./audit-log.ts";
+import { LoggedInUser } from "./auth.ts";
+import {
+  checkNotExpired,
+  type Elevation,
+  ElevationExpired,
+  Elevations,
+  InMemoryElevations,
+} from "./elevation.ts";
+import { InMemoryEventBroker, Outbox, OutboxLive } from "./outbox.ts";
+import { PolicySource, StaticPolicySource } from "./policy-source.ts";
+import {
+  buildTenantPolicies,
+  decide,
+  type DecideOptions,
+  type Decision,
+  parsePermission,
+  policyFor,
+  type TenantPolicies,
+} from "./rbac-policy.ts";
+import { permissionDenials, permissionGrants } from "./telemetry.ts";
+import { Transaction } from "./transaction.ts";
 
 // =============================================================================
 // RBAC Framework - Role-Based Access Control with Effect
@@ -14,187 +54,1045 @@ import { Context, Effect, Layer } from "effect";
 // Branded type representing a required permission for Action on Resource.
 // When this appears in an Effect's R (requirements), it means
 // "this code path needs <Action> permission on <Resource>."
-interface Requires<out Action extends string, out Resource extends string> {
+export interface Requires<
+  out Action extends string,
+  out Resource extends string,
+> {
   readonly _tag: `Requires<${Action}, ${Resource}>`;
 }
 
+// What an authorizer provides for a permission. Branded with a symbol this
+// module never exports, so providing a hand-made Grant fails to type-check.
+// A cast or a copy of a real one (`{ ...grant }`, Effect.updateService) gets
+// past the compiler though, so every Grant is also minted: registered, by
+// identity, for the one tag it is provided as and the user it is granted to.
+// Whatever reads a Grant goes through `granted`, which dies with ForgedGrant
+// on any other object, and with GrantMismatch on a real one captured from
+// another user's context (Effect.context) and provided to this one.
+const Granted: unique symbol = Symbol("@rbac/Granted");
+interface Grant {
+  readonly [Granted]: true;
+  // Set when an elevation granted the permission rather than a role: it is
+  // checked for expiry before every call that requires the permission
+  readonly elevation?: Elevation;
+  // Decides the field-level permissions under this one for the user it was
+  // granted to, e.g. "read:users.email" under "read:users"
+  readonly field?: (field: string) => Effect.Effect<Decided>;
+}
+const grant: Grant = { [Granted]: true };
+
+// Each minted Grant -> the key of the tag it was minted for and the id of
+// the user it was granted to
+const minted = new WeakMap<
+  Grant,
+  { readonly key: string; readonly userId: string }
+>();
+
+// Register `fresh`, a Grant no one else holds, as the one for `tag` granted
+// to `userId`. Only the authorizers call this, right before providing it.
+const mint = <I, S extends Grant>(
+  tag: Context.Tag<I, S>,
+  fresh: S,
+  userId: string,
+): S => {
+  minted.set(fresh, { key: tag.key, userId });
+  return fresh;
+};
+
+// The Grant provided for `tag`, if an authorizer minted it for that tag
+const mintedFor = <I, S extends Grant>(tag: Context.Tag<I, S>) =>
+  Effect.flatMap(tag, (grant) =>
+    minted.get(grant)?.key === tag.key
+      ? Effect.succeed(grant)
+      : Effect.die(new ForgedGrant(tag.key)),
+  );
+
+// The Grant provided for `tag`, if an authorizer minted it for that tag and
+// the CurrentUser
+const granted = <I, S extends Grant>(tag: Context.Tag<I, S>) =>
+  Effect.gen(function* () {
+    const grant = yield* mintedFor(tag);
+    const grantedTo = minted.get(grant)?.userId ?? "";
+    const user = yield* Effect.serviceOption(CurrentUser);
+    return Option.isSome(user) && user.value.id === grantedTo
+      ? grant
+      : yield* Effect.die(
+          new GrantMismatch(
+            tag.key,
+            grantedTo,
+            Option.getOrUndefined(user)?.id,
+          ),
+        );
+  });
+
 // Internal: get or create a permission tag (cached by key so the same
 // tag instance is shared between `requires` and `authorize`).
-const _tags = new Map<string, Context.Tag<any, any>>();
-const _tag = <A extends string, R extends string>(action: A, resource: R) => {
+const _tags = new Map<string, Context.Tag<unknown, Grant>>();
+const _tag = <A extends string, R extends string>(
+  action: A,
+  resource: R,
+): Context.Tag<Requires<A, R>, Grant> => {
   const key = `@rbac/${action}:${resource}`;
-  if (!_tags.has(key)) _tags.set(key, Context.GenericTag(key));
-  return _tags.get(key)! as Context.Tag<Requires<A, R>, {}>;
+  let tag = _tags.get(key);
+  if (!tag) {
+    tag = Context.GenericTag<unknown, Grant>(key);
+    _tags.set(key, tag);
+  }
+  // The key is built from A and R, so this tag stands for Requires<A, R>
+  return tag as Context.Tag<Requires<A, R>, Grant>;
 };
 
+// "action:resource" key of every Requires in a requirement union, read off
+// the `_tag` template literal:
+//   PermissionKey<Requires<"read", "posts"> | Requires<"write", "posts"> | Other>
+//     = "read:posts" | "write:posts"
+export type PermissionKey<R> = R extends {
+  readonly _tag: `Requires<${infer A}, ${infer Res}>`;
+}
+  ? `${A}:${Res}`
+  : never;
+
+// The Requires a permission key stands for
+export type RequiresFor<K extends string> = K extends `${infer A}:${infer Res}`
+  ? Requires<A, Res>
+  : never;
+
+// A Context holding a grant for each of `permissions`. The keys are split by
+// parsePermission, at the first colon, just as RequiresFor splits them, so
+// the context holds exactly RequiresFor<K>.
+const grantsFor = <K extends `${string}:${string}`>(
+  permissions: ReadonlyArray<K>,
+  userId: string,
+  grantOf: (action: string, resource: string, index: number) => Grant,
+): Context.Context<RequiresFor<K>> =>
+  Context.unsafeMake(
+    new Map(
+      permissions.map((permission, index) => {
+        const [action, resource] = parsePermission(permission);
+        const tag = _tag(action, resource);
+        return [tag.key, mint(tag, grantOf(action, resource, index), userId)];
+      }),
+    ),
+  );
+
 // --- Public API: requires ---
 
 // Wrap an effect to declare a permission requirement.
 // Usage: `requires("write", "posts")(effect)` or `effect.pipe(requires("write", "posts"))`
 // This adds `Requires<"write", "posts">` to the Effect's requirements.
-function requires<const A extends string, const R extends string>(
+export function requires<const A extends string, const R extends string>(
   action: A,
   resource: R,
 ) {
   const tag = _tag(action, resource);
   return <Eff_A, Eff_E, Eff_R>(effect: Effect.Effect<Eff_A, Eff_E, Eff_R>) =>
     Effect.gen(function* () {
-      yield* tag;
+      const grant = yield* granted(tag);
+      if (grant.elevation) yield* stillElevated(grant.elevation);
       return yield* effect;
     });
 }
 
+// --- Field-level permissions ---
+
+// Some fields need a permission of their own on top of the one on the
+// resource: "read:users.email" to see the email of a user that "read:users"
+// lets you read. Containers declare them on their schema (`restricted` in
+// ./cosmos.ts) and leave out the fields the user isn't granted.
+
+// grantedFields: which of `fields` of `resource` the user may also `action`.
+// Decided by the grant of the permission on the resource itself, so it
+// requires that permission. Not audited: a field left out of a result isn't
+// a denied request.
+// Usage: `grantedFields("read", "users", ["email", "accessedAt"])`
+export function grantedFields<const A extends string, const R extends string>(
+  action: A,
+  resource: R,
+  fields: ReadonlyArray<string>,
+) {
+  return Effect.flatMap(granted(_tag(action, resource)), (grant) =>
+    Effect.filter(fields, (field) =>
+      grant.field
+        ? Effect.map(grant.field(field), (decision) => decision.allowed)
+        : Effect.succeed(false),
+    ),
+  );
+}
+// Type: (action: A, resource: R, fields: string[]) => Effect<string[], never, Requires<A, R>>
+
+// --- Ownership-aware permissions ---
+
+// Like Requires, but the permission depends on the resource instance:
+// "<Action> on this <Resource>, which the user may only do if the policy
+// allows it for everyone or the user owns it."
+export interface RequiresOwn<
+  out Action extends string,
+  out Resource extends string,
+> {
+  readonly _tag: `RequiresOwn<${Action}, ${Resource}>`;
+}
+
+// What authorizeOwn provides: checks one loaded resource against the user
+export interface OwnershipCheck extends Grant {
+  readonly check: (
+    resourceId: string,
+    ownerId: string,
+  ) => Effect.Effect<void, AccessDenied>;
+}
+
+const _ownTags = new Map<string, Context.Tag<unknown, OwnershipCheck>>();
+const _ownTag = <A extends string, R extends string>(
+  action: A,
+  resource: R,
+): Context.Tag<RequiresOwn<A, R>, OwnershipCheck> => {
+  const key = `@rbac/own/${action}:${resource}`;
+  let tag = _ownTags.get(key);
+  if (!tag) {
+    tag = Context.GenericTag<unknown, OwnershipCheck>(key);
+    _ownTags.set(key, tag);
+  }
+  return tag as Context.Tag<RequiresOwn<A, R>, OwnershipCheck>;
+};
+
+// Wrap an effect that loads a resource to check the user may perform
+// <Action> on that instance once it is loaded.
+// Usage: `loadPost(id).pipe(requiresOwn("delete", "posts", (post) => post.authorId))`
+// This adds `RequiresOwn<"delete", "posts">` to the Effect's requirements.
+export function requiresOwn<
+  const A extends string,
+  const R extends string,
+  T extends { readonly id: string | number },
+>(action: A, resource: R, ownerOf: (resource: T) => string) {
+  const tag = _ownTag(action, resource);
+  return <Eff_E, Eff_R>(load: Effect.Effect<T, Eff_E, Eff_R>) =>
+    Effect.gen(function* () {
+      const ownership = yield* granted(tag);
+      const loaded = yield* load;
+      yield* ownership.check(String(loaded.id), ownerOf(loaded));
+      return loaded;
+    });
+}
+
 // --- User context (provided from environment) ---
 
-class CurrentUser extends Context.Tag("@rbac/CurrentUser")<
+export class CurrentUser extends Context.Tag("@rbac/CurrentUser")<
   CurrentUser,
-  { readonly id: string; readonly roles: ReadonlyArray<string> }
+  {
+    readonly id: string;
+    readonly email: string;
+    // The tenant the user signed in to; `roles` are the user's roles there
+    readonly tenant: string;
+    readonly roles: ReadonlyArray<string>;
+  }
 >() {}
 
+// --- Tenant ---
+
+// Tenant is a semantic marker that carries the tenant whose data the code
+// works on. `authenticate` provides the user's own tenant; only
+// `asPlatformAdmin` provides another one. Minted like the permissions, so
+// read it through `tenantOf`.
+export interface TenantGrant extends Grant {
+  readonly id: string;
+  // Set by asPlatformAdmin only: the id of the user it let in
+  readonly platformAdmin?: string;
+}
+
+export class Tenant extends Context.Tag("@rbac/Tenant")<
+  Tenant,
+  TenantGrant
+>() {}
+
+// The Tenant `user` works in: the one they signed in to, or one
+// asPlatformAdmin let them into. Dies with ForgedGrant on a Tenant that was
+// made or changed elsewhere, and with TenantMismatch on a real one carried
+// over to another user.
+export const tenantOf = (
+  user: LoggedInUser["Type"],
+): Effect.Effect<TenantGrant, never, Tenant> =>
+  Effect.flatMap(mintedFor(Tenant), (tenant) =>
+    tenant.platformAdmin === user.id ||
+    (tenant.platformAdmin === undefined && tenant.id === user.tenant)
+      ? Effect.succeed(tenant)
+      : Effect.die(new TenantMismatch(tenant.id, user.id)),
+  );
+
 // --- Errors ---
 
-class Unauthenticated extends Error {
+export class Unauthenticated extends Error {
   readonly _tag = "Unauthenticated";
   constructor() {
     super("Not authenticated");
   }
 }
 
-class AccessDenied extends Error {
+export class AccessDenied extends Error {
   readonly _tag = "AccessDenied";
   constructor(
-    readonly permission: string,
+    // Every permission that was missing, e.g. ["delete:posts"]
+    readonly permissions: ReadonlyArray<string>,
     readonly userRoles: ReadonlyArray<string>,
+    // Set when an instance check (requiresOwn) failed
+    readonly resourceId?: string,
   ) {
+    const missing = permissions.map((p) => `"${p}"`).join(", ");
     super(
-      `Access denied: "${permission}" not granted to roles [${userRoles.join(", ")}]`,
+      resourceId === undefined
+        ? `Access denied: ${missing} not granted to roles [${userRoles.join(", ")}]`
+        : `Access denied: ${missing} on "${resourceId}" not granted to roles [${userRoles.join(", ")}]`,
     );
   }
 }
 
+export class PostNotFound extends Error {
+  readonly _tag = "PostNotFound";
+  constructor(readonly postId: number) {
+    super(`No post ${postId}`);
+  }
+}
+
+// A Grant that no authorizer minted for the tag it was read from: built by
+// hand behind a cast, copied or changed. A defect, not a denied request.
+export class ForgedGrant extends Error {
+  readonly _tag = "ForgedGrant";
+  constructor(readonly key: string) {
+    super(`"${key}" was provided by something other than its authorizer`);
+  }
+}
+
+// A Tenant that isn't for the user it is read with. A defect, like
+// ForgedGrant.
+export class TenantMismatch extends Error {
+  readonly _tag = "TenantMismatch";
+  constructor(
+    readonly tenant: string,
+    readonly userId: string,
+  ) {
+    super(`Tenant "${tenant}" was not provided for ${userId}`);
+  }
+}
+
+// A real Grant read by another user than the one it was granted to. A
+// defect, like ForgedGrant.
+export class GrantMismatch extends Error {
+  readonly _tag = "GrantMismatch";
+  constructor(
+    readonly key: string,
+    readonly grantedTo: string,
+    // Undefined when no user is signed in
+    readonly userId: string | undefined,
+  ) {
+    super(`"${key}" was granted to ${grantedTo}, not ${userId ?? "nobody"}`);
+  }
+}
+
 // --- Role definitions ---
 
-const rolePermissions: Record<string, ReadonlyArray<string>> = {
-  admin: [
-    "read:posts",
-    "write:posts",
-    "delete:posts",
-    "read:users",
-    "write:users",
-  ],
-  editor: ["read:posts", "write:posts", "read:users"],
-  viewer: ["read:posts", "read:users"],
-};
+// The roles compiled in. The authorizers read roles from PolicySource
+// (./policy-source.ts), so a deployment can load them from a file instead -
+// ./policy.yaml has these same roles.
+// Roles inherit from each other, so each only lists what it adds.
+// See ./rbac-policy.ts for wildcards and deny rules.
+// Resources are the posts below and the Cosmos containers of ./index.ts.
+const roles = {
+  viewer: { allow: ["read:posts", "read:users"] },
+  editor: {
+    inherits: ["viewer"],
+    allow: [
+      "write:posts",
+      "write:users",
+      "read:users.accessedAt",
+      "*:counters",
+    ],
+    allowOwn: ["delete:posts"],
+  },
+  // Only admins see personal data
+  admin: {
+    inherits: ["editor"],
+    allow: ["*:posts", "*:users", "read:users.email", "approve:elevations"],
+  },
+  // May step into other tenants with asPlatformAdmin
+  "platform-admin": { inherits: ["admin"], allow: ["access:tenants"] },
+} as const;
 
-// --- Middleware ---
+// Roles per tenant: a user's roles are looked up in the policy of the
+// tenant they signed in to. "*" applies to every other tenant.
+export const rolePermissions = buildTenantPolicies({
+  "*": roles,
+  // Globex keeps its user records read-only for editors
+  globex: {
+    ...roles,
+    editor: {
+      ...roles.editor,
+      allow: ["write:posts", "read:users.accessedAt", "*:counters"],
+    },
+  },
+}).pipe(Either.getOrThrowWith((error) => error));
 
-// authenticate: reads from environment, provides CurrentUser.
-// CurrentUser depends on env — if there's no token, we fail.
-function authenticate<A, E, R>(effect: Effect.Effect<A, E, R>) {
-  return Effect.gen(function* () {
-    // In real code: read a JWT from headers, verify it, look up the user
-    const token = process.env.AUTH_TOKEN;
-    if (!token) return yield* Effect.fail(new Unauthenticated());
+// PolicySource for the roles above
+export const BuiltInPolicy = StaticPolicySource(rolePermissions);
 
-    const user = { id: "user-1", roles: ["editor"] as ReadonlyArray<string> };
-    console.log(
-      `[Auth] Authenticated ${user.id} (roles: ${user.roles.join(", ")})`,
-    );
+// The policy in effect, read once per authorizer so that every decision it
+// makes uses the same version
+const currentPolicy = Effect.flatMap(PolicySource, (source) => source.current);
 
-    return yield* effect.pipe(Effect.provide(Layer.succeed(CurrentUser, user)));
+// Decide in the policy of the user's tenant
+const decideFor = (
+  policies: TenantPolicies,
+  user: CurrentUser["Type"],
+  action: string,
+  resource: string,
+  options?: DecideOptions,
+) =>
+  decide(
+    policyFor(policies, user.tenant),
+    user.roles,
+    action,
+    resource,
+    options,
+  );
+
+// explainPermission: which role or rule grants or denies a request, e.g.
+//   "delete:posts" is not granted by any of the roles [editor]
+//   "read:posts" granted by rule "read:posts" of role "viewer" (inherited via editor -> viewer)
+export function explainPermission(
+  user: CurrentUser["Type"],
+  action: string,
+  resource: string,
+) {
+  return Effect.map(
+    currentPolicy,
+    ({ policies }) => decideFor(policies, user, action, resource).explanation,
+  );
+}
+
+// --- Elevations ---
+
+// A decision, or the grant of an elevation where no rule decided
+interface Decided extends Decision {
+  readonly elevation?: Elevation;
+}
+
+// Grant a permission no rule decided on if the user is elevated to it. A
+// deny rule still wins.
+const elevate = (
+  decision: Decision,
+  elevation: Elevation | undefined,
+): Decided =>
+  decision.allowed || decision.rule || !elevation
+    ? decision
+    : {
+        ...decision,
+        allowed: true,
+        elevation,
+        explanation: `"${decision.permission}" granted by elevation #${elevation.id} (approved by ${elevation.approvedBy} until ${new Date(elevation.expiresAt).toISOString()}): ${elevation.reason}`,
+      };
+
+// decideFor, then elevate - elevations are only looked up when no rule decided
+const decideElevated = (
+  policies: TenantPolicies,
+  user: CurrentUser["Type"],
+  action: string,
+  resource: string,
+) =>
+  Effect.gen(function* () {
+    const decision: Decided = decideFor(policies, user, action, resource);
+    if (decision.allowed || decision.rule) return decision;
+    const elevations = yield* Elevations;
+    const elevation = yield* elevations.active(
+      user.id,
+      user.tenant,
+      decision.permission,
+    );
+    return elevate(decision, elevation);
   });
+
+// Dies rather than fails, so that no catch-all between the authorizer and
+// the privileged call can swallow the expiry. The authorizer turns it back
+// into a typed failure (failOnExpiry).
+const stillElevated = (elevation: Elevation) =>
+  checkNotExpired(elevation).pipe(Effect.orDie);
+
+const failOnExpiry = <A, E, R>(effect: Effect.Effect<A, E, R>) =>
+  Effect.catchSomeDefect(effect, (defect) =>
+    defect instanceof ElevationExpired
+      ? Option.some(
+          Effect.zipRight(
+            Effect.log(`[RBAC] ${defect.message}`),
+            Effect.fail(defect),
+          ),
+        )
+      : Option.none(),
+  );
+
+// Field-level decisions for a permission granted to `user`: "read:users"
+// decides "read:users.<field>". Made when a field is read rather than up
+// front, so an elevation to a field counts for as long as it lasts.
+const fieldsOf =
+  (
+    policies: TenantPolicies,
+    user: CurrentUser["Type"],
+    elevations: Elevations["Type"],
+    action: string,
+    resource: string,
+  ) =>
+  (field: string) =>
+    decideElevated(policies, user, action, `${resource}.${field}`).pipe(
+      Effect.provideService(Elevations, elevations),
+    );
+
+// The Grant to provide for a permission a decision allowed
+const grantFor = (
+  decision: Decided,
+  field: NonNullable<Grant["field"]>,
+): Grant => ({
+  ...grant,
+  ...(decision.elevation ? { elevation: decision.elevation } : {}),
+  field,
+});
+
+// The audit trail entry for a decision, naming the role whose rule decided
+const audited = (
+  userId: string,
+  action: string,
+  resource: string,
+  decision: Decided,
+  resourceId?: string,
+): PermissionDecided => ({
+  _tag: decision.allowed ? "PermissionGranted" : "PermissionDenied",
+  userId,
+  action,
+  resource,
+  ...(resourceId !== undefined ? { resourceId } : {}),
+  ...(decision.rule ? { role: decision.rule.role } : {}),
+  ...(decision.elevation ? { elevationId: decision.elevation.id } : {}),
+  explanation: decision.explanation,
+});
+
+// Count a decision in the grant/denial metrics, tagged with its permission
+const counted = (decision: Decision) =>
+  Metric.increment(
+    Metric.tagged(
+      decision.allowed ? permissionGrants : permissionDenials,
+      "permission",
+      decision.permission,
+    ),
+  );
+
+// --- Middleware ---
+
+// authenticate: reads a token from the environment, verifies it with the
+// AuthProvider, provides CurrentUser - and LoggedInUser (./auth.ts), derived
+// from the same user, for code that only needs to know who is calling - and
+// the Tenant the user signed in to.
+// CurrentUser depends on env — if there's no token, we fail. A bad token
+// fails with the AuthProvider's error (TokenExpired, InvalidSignature...).
+// Either way the outcome goes to the AuditLog.
+export function authenticate<A, E, R>(
+  effect: Effect.Effect<A, E, R>,
+): Effect.Effect<
+  A,
+  E | Unauthenticated | TokenError,
+  Exclude<R, CurrentUser | LoggedInUser | Tenant> | AuthProvider | AuditLog
+> {
+  return authenticateWith(Effect.sync(() => process.env.AUTH_TOKEN))(effect);
+}
+
+// authenticateWith: authenticate with a token from somewhere else than the
+// environment, e.g. the Authorization header of an HTTP request
+// (./server.ts). `token` is read when the effect runs; undefined means the
+// caller sent none.
+export function authenticateWith(token: Effect.Effect<string | undefined>) {
+  return <A, E, R>(
+    effect: Effect.Effect<A, E, R>,
+  ): Effect.Effect<
+    A,
+    E | Unauthenticated | TokenError,
+    Exclude<R, CurrentUser | LoggedInUser | Tenant> | AuthProvider | AuditLog
+  > =>
+    Effect.gen(function* () {
+      const audit = yield* AuditLog;
+      const bearer = yield* token;
+      if (!bearer) {
+        yield* audit.record({ _tag: "AuthFailed", reason: "No token" });
+        return yield* Effect.fail(new Unauthenticated());
+      }
+
+      const auth = yield* AuthProvider;
+      const identity = yield* auth
+        .verify(bearer)
+        .pipe(
+          Effect.tapError((error) =>
+            audit.record({ _tag: "AuthFailed", reason: error.message }),
+          ),
+        );
+      const user = {
+        id: identity.id,
+        email: identity.email,
+        tenant: identity.tenant,
+        roles: identity.roles,
+      };
+      yield* Effect.annotateCurrentSpan({
+        "user.id": user.id,
+        "tenant.id": user.tenant,
+      });
+      yield* Effect.log(
+        `[Auth] Authenticated ${user.id} in ${user.tenant} (roles: ${user.roles.join(", ")})`,
+      );
+      yield* audit.record({
+        _tag: "AuthSucceeded",
+        userId: user.id,
+        tenant: user.tenant,
+        roles: user.roles,
+      });
+
+      return yield* effect.pipe(
+        Effect.provide(
+          Context.make(CurrentUser, user).pipe(
+            Context.add(LoggedInUser, user),
+            Context.add(
+              Tenant,
+              mint(Tenant, { ...grant, id: user.tenant }, user.id),
+            ),
+          ),
+        ),
+      );
+    }).pipe(Effect.withSpan("authenticate"));
 }
 
 // authorize: reads CurrentUser (so it depends on auth), checks their
-// roles against the requested permission, and provides it if allowed.
-function authorize<const A extends string, const R extends string>(
+// roles - or else their elevations - against the requested permission, and
+// provides it if allowed. The decision is recorded in the AuditLog either
+// way. A permission granted by an elevation fails the next call that
+// requires it with ElevationExpired once the elevation expires.
+export function authorize<const A extends string, const R extends string>(
   action: A,
   resource: R,
 ) {
   const tag = _tag(action, resource);
   const key = `${action}:${resource}`;
 
-  return <Eff_A, Eff_E, Eff_R>(effect: Effect.Effect<Eff_A, Eff_E, Eff_R>) =>
+  return <Eff_A, Eff_E, Eff_R>(
+    effect: Effect.Effect<Eff_A, Eff_E, Eff_R>,
+  ): Effect.Effect<
+    Eff_A,
+    Eff_E | AccessDenied | ElevationExpired,
+    | Exclude<Eff_R, Requires<A, R>>
+    | CurrentUser
+    | AuditLog
+    | PolicySource
+    | Elevations
+  > =>
+    Effect.gen(function* () {
+      const user = yield* CurrentUser;
+      const audit = yield* AuditLog;
+      const elevations = yield* Elevations;
+      const { version, policies } = yield* currentPolicy;
+      const decision = yield* decideElevated(policies, user, action, resource);
+      yield* audit.record(audited(user.id, action, resource, decision));
+      yield* counted(decision);
+      yield* Effect.annotateCurrentSpan({
+        "user.id": user.id,
+        "policy.version": version,
+        "permission.granted": decision.allowed,
+      });
+
+      if (!decision.allowed) {
+        yield* Effect.log(`[RBAC] ${decision.explanation}`);
+        return yield* Effect.fail(new AccessDenied([key], user.roles));
+      }
+
+      yield* Effect.log(`[RBAC] ${decision.explanation} for ${user.id}`);
+      return yield* effect.pipe(
+        Effect.provideService(
+          tag,
+          mint(
+            tag,
+            grantFor(
+              decision,
+              fieldsOf(policies, user, elevations, action, resource),
+            ),
+            user.id,
+          ),
+        ),
+        failOnExpiry,
+      );
+    }).pipe(
+      Effect.withSpan("authorize", { attributes: { "permission.key": key } }),
+    );
+}
+
+// authorizeAll: authorize several permissions in one pass - CurrentUser is
+// read once and every permission is decided before any fails, so the
+// AccessDenied lists everything that is missing.
+// Usage: `publishWorkflow(title).pipe(authorizeAll("read:posts", "write:posts"))`
+//
+// Types are erased at runtime, so the permissions are spelled out here, but
+// the compiler checks them against the effect: every Requires whose key
+// (PermissionKey) is listed is removed from R, and one left out stays in R
+// and fails to compile where the program is run.
+export function authorizeAll<
+  const P extends ReadonlyArray<`${string}:${string}`>,
+>(...permissions: P) {
+  return <Eff_A, Eff_E, Eff_R>(
+    effect: Effect.Effect<Eff_A, Eff_E, Eff_R>,
+  ): Effect.Effect<
+    Eff_A,
+    Eff_E | AccessDenied | ElevationExpired,
+    | Exclude<Eff_R, RequiresFor<P[number]>>
+    | CurrentUser
+    | AuditLog
+    | PolicySource
+    | Elevations
+  > =>
     Effect.gen(function* () {
       const user = yield* CurrentUser;
-      const granted = user.roles.flatMap((r) => [
-        ...(rolePermissions[r] ?? []),
-      ]);
+      const audit = yield* AuditLog;
+      const elevations = yield* Elevations;
+      const { version, policies } = yield* currentPolicy;
+      const decisions = yield* Effect.forEach(permissions, (permission) => {
+        const [action, resource] = parsePermission(permission);
+        return decideElevated(policies, user, action, resource).pipe(
+          Effect.tap((decision) =>
+            audit
+              .record(audited(user.id, action, resource, decision))
+              .pipe(Effect.zipRight(counted(decision))),
+          ),
+        );
+      });
 
-      if (!granted.includes(key)) {
-        return yield* Effect.fail(new AccessDenied(key, user.roles));
+      const missing = decisions.filter((d) => !d.allowed);
+      yield* Effect.annotateCurrentSpan({
+        "user.id": user.id,
+        "policy.version": version,
+        "permission.granted": missing.length === 0,
+      });
+      if (missing.length > 0) {
+        yield* Effect.forEach(missing, (d) =>
+          Effect.log(`[RBAC] ${d.explanation}`),
+        );
+        return yield* Effect.fail(
+          new AccessDenied(
+            missing.map((d) => d.permission),
+            user.roles,
+          ),
+        );
       }
 
-      console.log(`[RBAC] "${key}" granted to ${user.id}`);
-      return yield* effect.pipe(Effect.provide(Layer.succeed(tag, {})));
+      yield* Effect.forEach(decisions, (d) =>
+        Effect.log(`[RBAC] ${d.explanation} for ${user.id}`),
+      );
+      const granted = grantsFor<P[number]>(
+        permissions,
+        user.id,
+        (action, resource, i) =>
+          grantFor(
+            decisions[i]!,
+            fieldsOf(policies, user, elevations, action, resource),
+          ),
+      );
+      return yield* effect.pipe(Effect.provide(granted), failOnExpiry);
+    }).pipe(
+      Effect.withSpan("authorizeAll", {
+        attributes: { "permission.key": permissions },
+      }),
+    );
+}
+
+// authorizeOwn: like authorize, but for a RequiresOwn permission. The
+// decision is made per loaded resource, once its owner is known. An
+// elevation to the permission covers resources the user doesn't own.
+export function authorizeOwn<const A extends string, const R extends string>(
+  action: A,
+  resource: R,
+) {
+  const tag = _ownTag(action, resource);
+  const key = `${action}:${resource}`;
+
+  return <Eff_A, Eff_E, Eff_R>(
+    effect: Effect.Effect<Eff_A, Eff_E, Eff_R>,
+  ): Effect.Effect<
+    Eff_A,
+    Eff_E | ElevationExpired,
+    | Exclude<Eff_R, RequiresOwn<A, R>>
+    | CurrentUser
+    | AuditLog
+    | PolicySource
+    | Elevations
+  > =>
+    Effect.gen(function* () {
+      const user = yield* CurrentUser;
+      const audit = yield* AuditLog;
+      // Read once: every instance checked in this effect uses this version
+      // and this elevation, which may expire in the meantime
+      const { version, policies } = yield* currentPolicy;
+      const elevations = yield* Elevations;
+      const elevation = yield* elevations.active(user.id, user.tenant, key);
+      const ownership: OwnershipCheck = {
+        ...grant,
+        check: (resourceId, ownerId) =>
+          Effect.gen(function* () {
+            const decision = elevate(
+              decideFor(policies, user, action, resource, {
+                owner: ownerId === user.id,
+              }),
+              elevation,
+            );
+            if (decision.elevation) yield* stillElevated(decision.elevation);
+            yield* Effect.log(
+              `[RBAC] ${decision.explanation} for ${resource}/${resourceId}`,
+            );
+            yield* audit.record(
+              audited(user.id, action, resource, decision, resourceId),
+            );
+            yield* counted(decision);
+            yield* Effect.annotateCurrentSpan(
+              "permission.granted",
+              decision.allowed,
+            );
+            if (!decision.allowed) {
+              return yield* Effect.fail(
+                new AccessDenied([key], user.roles, resourceId),
+              );
+            }
+          }).pipe(
+            Effect.withSpan("authorizeOwn", {
+              attributes: {
+                "user.id": user.id,
+                "policy.version": version,
+                "permission.key": key,
+                "resource.id": resourceId,
+              },
+            }),
+          ),
+      };
+      return yield* effect.pipe(
+        Effect.provideService(tag, mint(tag, ownership, user.id)),
+        failOnExpiry,
+      );
     });
 }
 
+// asPlatformAdmin: run an effect against another tenant's data. The only way
+// to provide a Tenant other than the user's own: the user must be granted
+// "access:tenants" (the platform-admin role), and every attempt is recorded
+// in the AuditLog with its reason, granted or not.
+// Usage: `cosmos.getDocument(id, opts).pipe(asPlatformAdmin("globex", "SUP-123"))`
+export function asPlatformAdmin(tenant: string, reason: string) {
+  return <Eff_A, Eff_E, Eff_R>(
+    effect: Effect.Effect<Eff_A, Eff_E, Eff_R>,
+  ): Effect.Effect<
+    Eff_A,
+    Eff_E | AccessDenied,
+    Exclude<Eff_R, Tenant> | CurrentUser | AuditLog | PolicySource
+  > =>
+    Effect.gen(function* () {
+      const user = yield* CurrentUser;
+      const audit = yield* AuditLog;
+      const { version, policies } = yield* currentPolicy;
+      const decision = decideFor(policies, user, "access", "tenants");
+      yield* audit.record({
+        _tag: decision.allowed ? "CrossTenantGranted" : "CrossTenantDenied",
+        userId: user.id,
+        fromTenant: user.tenant,
+        toTenant: tenant,
+        reason,
+      });
+      yield* counted(decision);
+      yield* Effect.annotateCurrentSpan({
+        "user.id": user.id,
+        "policy.version": version,
+        "permission.granted": decision.allowed,
+      });
+
+      if (!decision.allowed) {
+        yield* Effect.log(`[RBAC] ${decision.explanation}`);
+        return yield* Effect.fail(
+          new AccessDenied([decision.permission], user.roles),
+        );
+      }
+
+      yield* Effect.log(
+        `[RBAC] ${user.id} acting in tenant ${tenant} as platform admin: ${reason}`,
+      );
+      return yield* effect.pipe(
+        Effect.provideService(
+          Tenant,
+          mint(
+            Tenant,
+            { ...grant, id: tenant, platformAdmin: user.id },
+            user.id,
+          ),
+        ),
+      );
+    }).pipe(
+      Effect.withSpan("asPlatformAdmin", {
+        attributes: { "tenant.id": tenant },
+      }),
+    );
+}
+
+// requestElevation: ask for a permission the user's roles lack, for `ttl`
+// from when it is approved. Anyone signed in may ask; the request is audited.
+// Usage: `requestElevation("delete:posts", "INC-7: spam wave", "15 minutes")`
+export function requestElevation(
+  permission: `${string}:${string}`,
+  reason: string,
+  ttl: Duration.DurationInput,
+) {
+  return Effect.gen(function* () {
+    const user = yield* CurrentUser;
+    const audit = yield* AuditLog;
+    const elevations = yield* Elevations;
+    const request = yield* elevations.request({
+      userId: user.id,
+      tenant: user.tenant,
+      permission,
+      reason,
+      ttl: Duration.decode(ttl),
+    });
+    yield* audit.record({
+      _tag: "ElevationRequested",
+      requestId: request.id,
+      userId: user.id,
+      tenant: user.tenant,
+      permission,
+      reason,
+      ttlMillis: Duration.toMillis(request.ttl),
+    });
+    yield* Effect.log(
+      `[RBAC] ${user.id} requests "${permission}" for ${Duration.format(request.ttl)}: ${reason} (#${request.id})`,
+    );
+    return request;
+  }).pipe(Effect.withSpan("requestElevation"));
+}
+
+// approveElevation: the CurrentUser approves someone else's request, which
+// needs "approve:elevations" itself. The TTL starts now. Only a request made
+// in the approver's Tenant can be approved: their own, or one they entered
+// with asPlatformAdmin.
+export function approveElevation(requestId: number) {
+  return Effect.gen(function* () {
+    const approver = yield* CurrentUser;
+    const audit = yield* AuditLog;
+    const elevations = yield* Elevations;
+    const tenant = yield* tenantOf(approver);
+    const elevation = yield* elevations.approve(
+      requestId,
+      approver.id,
+      tenant.id,
+    );
+    yield* audit.record({
+      _tag: "ElevationApproved",
+      requestId,
+      userId: elevation.userId,
+      approvedBy: approver.id,
+      permission: elevation.permission,
+      expiresAt: elevation.expiresAt,
+    });
+    yield* Effect.log(
+      `[RBAC] ${approver.id} approved "${elevation.permission}" for ${elevation.userId} until ${new Date(elevation.expiresAt).toISOString()}`,
+    );
+    return elevation;
+  }).pipe(
+    requires("approve", "elevations"),
+    Effect.withSpan("approveElevation"),
+  );
+}
+// Type: (requestId: number) => Effect<Elevation, ElevationRequestNotFound | SelfApprovalDenied | CrossTenantApprovalDenied, CurrentUser | Tenant | AuditLog | Elevations | Requires<"approve", "elevations">>
+
 // =============================================================================
 // Business logic — look at how permissions appear in the types!
 // =============================================================================
 
-function listPosts() {
+const posts = [
+  { id: 1, title: "Hello", authorId: "user-2" },
+  { id: 2, title: "World", authorId: "user-1" },
+];
+
+export function listPosts() {
   return Effect.gen(function* () {
-    console.log("[Posts] Listing posts");
-    return [
-      { id: 1, title: "Hello" },
-      { id: 2, title: "World" },
-    ];
+    yield* Effect.log("[Posts] Listing posts");
+    return posts;
   }).pipe(requires("read", "posts"));
 }
 // Type: () => Effect<Post[], never, Requires<"read", "posts">>
 
-function createPost(title: string) {
+export function createPost(title: string) {
   return Effect.gen(function* () {
-    console.log(`[Posts] Creating: "${title}"`);
+    yield* Effect.log(`[Posts] Creating: "${title}"`);
     return { id: 3, title };
   }).pipe(requires("write", "posts"));
 }
 // Type: (title: string) => Effect<Post, never, Requires<"write", "posts">>
 
-function deletePost(id: number) {
+export function loadPost(id: number) {
   return Effect.gen(function* () {
-    console.log(`[Posts] Deleting post ${id}`);
-  }).pipe(
-    requires("read", "posts"), //   must read to verify it exists
-    requires("delete", "posts"), // must have delete permission
-  );
+    const post = posts.find((p) => p.id === id);
+    if (!post) return yield* Effect.fail(new PostNotFound(id));
+    return post;
+  }).pipe(requires("read", "posts"));
+}
+
+export function deletePost(id: number) {
+  return Effect.gen(function* () {
+    // Editors may only delete their own posts: the check needs the post
+    const post = yield* loadPost(id).pipe(
+      requiresOwn("delete", "posts", (post) => post.authorId),
+    );
+    yield* Effect.log(`[Posts] Deleting post ${post.id}`);
+  });
 }
-// Type: (id: number) => Effect<void, never, Requires<"read", "posts"> | Requires<"delete", "posts">>
-//                                           ^^^ BOTH permissions bubble up!
+// Type: (id: number) => Effect<void, PostNotFound | AccessDenied, Requires<"read", "posts"> | RequiresOwn<"delete", "posts">>
+//                                                  ^^^ BOTH permissions bubble up!
 
 // Composed functions merge requirements automatically
-function publishWorkflow(title: string) {
+export function publishWorkflow(title: string) {
   return Effect.gen(function* () {
     const posts = yield* listPosts();
     const newPost = yield* createPost(title);
-    console.log(`[Workflow] Published "${title}" (total: ${posts.length + 1})`);
+    yield* Effect.log(
+      `[Workflow] Published "${title}" (total: ${posts.length + 1})`,
+    );
+    // Subscribers only hear of it once the transaction commits
+    yield* Outbox.emit({ _tag: "PostPublished", postId: newPost.id, title });
     return newPost;
   });
 }
-// Type: (title: string) => Effect<Post, never, Requires<"read", "posts"> | Requires<"write", "posts">>
-//       Requirements from BOTH listPosts and createPost merge automatically!
+// Type: (title: string) => Effect<Post, never, Requires<"read", "posts"> | Requires<"write", "posts"> | Outbox | Transaction>
+//       Requirements from listPosts, createPost AND the Outbox merge automatically!
 
 // =============================================================================
 // Running — permissions must be authorized at the edge
 // =============================================================================
 
-process.env.AUTH_TOKEN = "secret";
-
 const main = Effect.gen(function* () {
   // --- Happy path: editor can read + write posts ---
   console.log("=== Editor publishes a post ===\n");
   const post = yield* publishWorkflow("My Post").pipe(
-    authorize("write", "posts"), // checks editor has write:posts -> yes
-    authorize("read", "posts"), //  checks editor has read:posts  -> yes
+    Transaction.commit, // PostPublished is dispatched after this commits
+    // checks editor has write:posts AND read:posts in one go -> yes
+    authorizeAll("write:posts", "read:posts"),
   );
   console.log("Created:", post);
 
-  // --- Sad path: editor tries to delete (not in their role) ---
-  console.log("\n=== Editor tries to delete a post ===\n");
+  // --- Why can (or can't) the editor do things? ---
+  console.log("\n=== Explaining the editor's permissions ===\n");
+  const user = yield* CurrentUser;
+  console.log(yield* explainPermission(user, "read", "posts"));
+  console.log(yield* explainPermission(user, "delete", "posts"));
+
+  // --- Editors may delete their own posts... ---
+  console.log("\n=== Editor deletes their own post ===\n");
+  yield* deletePost(2).pipe(
+    authorizeOwn("delete", "posts"), // post 2 is by user-1 -> allowed
+    authorize("read", "posts"),
+  );
+
+  // --- Sad path: ...but not someone else's ---
+  console.log("\n=== Editor tries to delete someone else's post ===\n");
   const result = yield* deletePost(1).pipe(
-    authorize("delete", "posts"), // checks editor has delete:posts -> NO!
+    authorizeOwn("delete", "posts"), // post 1 is by user-2 -> NO!
     authorize("read", "posts"),
   );
   console.log("Result:", result);
@@ -202,9 +1100,55 @@ const main = Effect.gen(function* () {
   // --- This would NOT compile! Uncomment to see the error: ---
   // yield* createPost("Nope")
   //   ^ Type error: Requires<"write", "posts"> is not provided
+  // yield* deletePost(2).pipe(authorize("delete", "posts"), authorize("read", "posts"))
+  //   ^ Type error: RequiresOwn<"delete", "posts"> is not provided
 }).pipe(authenticate); // provides CurrentUser from env
 
-Effect.runPromise(main);
+if (import.meta.main) {
+  // A locally signed JWT for an editor, valid for an hour
+  const jwtOptions = {
+    secret: "demo-secret",
+    issuer: "effect-demo",
+    audience: "posts-api",
+  };
+  process.env.AUTH_TOKEN = signJwt(
+    {
+      sub: "user-1",
+      email: "editor@example.com",
+      tenant: "acme",
+      roles: ["editor"],
+      iss: jwtOptions.issuer,
+      aud: jwtOptions.audience,
+      exp: Math.floor(Date.now() / 1000) + 3600,
+    },
+    jwtOptions.secret,
+  );
+
+  Effect.runPromise(
+    main.pipe(
+      Effect.provide(
+        Layer.mergeAll(
+          JwtAuthProvider(jwtOptions),
+          InMemoryAuditLog,
+          BuiltInPolicy,
+          InMemoryElevations,
+          OutboxLive().pipe(
+            Layer.provide(
+              InMemoryEventBroker({
+                PostPublished: [
+                  (event) =>
+                    Effect.sync(() =>
+                      console.log(`[Events] Post ${event.postId} published`),
+                    ),
+                ],
+              }),
+            ),
+          ),
+        ),
+      ),
+    ),
+  );
+}
 
 // =============================================================================
 // Dependency chain:
@@ -212,7 +1156,7 @@ Effect.runPromise(main);
 //   effect.pipe(
 //     requires("write", "posts"),   wraps effect, adds Requires<"write", "posts"> to type
 //     authorize("write", "posts"),  reads CurrentUser, checks role, provides permission
-//     authenticate,                 reads env, provides CurrentUser
+//     authenticate,                 verifies token from env, provides CurrentUser (+ LoggedInUser, Tenant)
 //   )
 //
 // The type system tracks every link. If you skip authorize or authenticate,
@@ -220,8 +1164,15 @@ Effect.runPromise(main);
 //
 // Summary:
 //   requires(A, R)  -> wraps effect, adds dependency on Requires<A, R>
-//   authorize(A, R) -> wraps effect, resolves Requires<A, R>, depends on CurrentUser
-//   authenticate    -> wraps effect, resolves CurrentUser, depends on env
+//   authorize(A, R) -> wraps effect, resolves Requires<A, R>, depends on CurrentUser + PolicySource + Elevations
+//   authorizeAll("a:r", ...)    -> resolves every listed Requires at once, one AccessDenied for all
+//   requiresOwn(A, R, ownerOf)  -> wraps a load, adds RequiresOwn<A, R>, checks the loaded instance
+//   authorizeOwn(A, R)          -> resolves RequiresOwn<A, R>, depends on CurrentUser
+//   authenticate    -> wraps effect, resolves CurrentUser + LoggedInUser + Tenant, depends on env + AuthProvider
+//   authenticateWith(token)     -> the same, with the token from elsewhere (an HTTP header, see ./server.ts)
+//   asPlatformAdmin(tenant, why) -> resolves Tenant with another tenant, audited, depends on CurrentUser
+//   requestElevation("a:r", why, ttl) -> asks for a permission for a while; approveElevation(id) grants it,
+//                                        and the authorizers honour it until it expires (ElevationExpired)
 //
 // All statically known. All in the types. The compiler enforces it.
 // =============================================================================
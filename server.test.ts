@@ -0,0 +1,217 @@
+import { describe, expect, test } from "bun:test";
+import { Effect, Layer } from "effect";
+import { AuditLog, InMemoryAuditLog } from "./audit-log.ts";
+import { JwtAuthProvider, type JwtOptions, signJwt } from "./auth-provider.ts";
+import { InMemoryElevations } from "./elevation.ts";
+import { InMemoryEventBroker, OutboxLive } from "./outbox.ts";
+import { BuiltInPolicy } from "./rbac.ts";
+import { handle } from "./server.ts";
+
+// Requests straight into handle, no server: every failure is a
+// problem+json response, and each request authenticates on its own
+
+const jwt: JwtOptions = {
+  secret: "secret",
+  issuer: "https://auth.example.com",
+  audience: "api",
+};
+
+const tokenFor = (sub: string, roles: ReadonlyArray<string>) =>
+  signJwt(
+    {
+      sub,
+      email: `${sub}@example.com`,
+      tenant: "acme",
+      roles,
+      iss: jwt.issuer,
+      aud: jwt.audience,
+      exp: Math.floor(Date.now() / 1000) + 3600,
+    },
+    jwt.secret,
+  );
+
+// user-1 wrote post 2, user-2 wrote post 1
+const editor = tokenFor("user-1", ["editor"]);
+const otherEditor = tokenFor("user-2", ["editor"]);
+const viewer = tokenFor("user-3", ["viewer"]);
+
+const request = (
+  method: string,
+  path: string,
+  options: { token?: string; body?: string } = {},
+) =>
+  new Request(`http://localhost${path}`, {
+    method,
+    headers: options.token ? { authorization: `Bearer ${options.token}` } : {},
+    ...(options.body !== undefined ? { body: options.body } : {}),
+  });
+
+const services = Layer.mergeAll(
+  JwtAuthProvider(jwt),
+  InMemoryAuditLog,
+  InMemoryElevations,
+  OutboxLive().pipe(Layer.provide(InMemoryEventBroker())),
+  BuiltInPolicy,
+);
+
+const run = <A, E>(
+  effect: Effect.Effect<A, E, Layer.Layer.Success<typeof services>>,
+) => effect.pipe(Effect.provide(services), Effect.runPromise);
+
+// The status and problem+json body of one request
+const send = async (request: Request) => {
+  const response = await run(handle(request));
+  const body = (await response.json()) as Record<string, unknown>;
+  return { status: response.status, body };
+};
+
+describe("handle", () => {
+  test("401 without a token, with the Bearer challenge", async () => {
+    const response = await run(handle(request("GET", "/posts")));
+
+    expect(response.status).toBe(401);
+    expect(response.headers.get("content-type")).toBe(
+      "application/problem+json",
+    );
+    expect(response.headers.get("www-authenticate")).toBe("Bearer");
+    expect(await response.json()).toMatchObject({
+      title: "Unauthorized",
+      detail: "Not authenticated",
+    });
+  });
+
+  test("401 for a malformed token", async () => {
+    const { status, body } = await send(
+      request("GET", "/posts", { token: "not-a-jwt" }),
+    );
+
+    expect(status).toBe(401);
+    expect(body.detail).toContain("expected three dot-separated segments");
+  });
+
+  test("403 lists the missing permissions", async () => {
+    const { status, body } = await send(
+      request("POST", "/posts", {
+        token: viewer,
+        body: JSON.stringify({ title: "Nope" }),
+      }),
+    );
+
+    expect(status).toBe(403);
+    expect(body).toMatchObject({
+      title: "Forbidden",
+      missingPermissions: ["write:posts"],
+    });
+    expect(body).not.toHaveProperty("resourceId");
+  });
+
+  test("403 before the body is read", async () => {
+    const results = await Promise.all([
+      send(request("POST", "/posts", { token: viewer, body: "not json" })),
+      send(request("POST", "/posts/publish", { token: viewer, body: "{}" })),
+    ]);
+
+    expect(results).toEqual([
+      {
+        status: 403,
+        body: expect.objectContaining({ missingPermissions: ["write:posts"] }),
+      },
+      {
+        status: 403,
+        body: expect.objectContaining({ missingPermissions: ["write:posts"] }),
+      },
+    ]);
+  });
+
+  test("403 names the resource when it isn't the user's own", async () => {
+    const { status, body } = await send(
+      request("DELETE", "/posts/1", { token: editor }),
+    );
+
+    expect(status).toBe(403);
+    expect(body).toMatchObject({
+      missingPermissions: ["delete:posts"],
+      resourceId: "1",
+    });
+  });
+
+  test("400 for a body without a title", async () => {
+    const results = await Promise.all([
+      send(request("POST", "/posts", { token: editor, body: "not json" })),
+      send(request("POST", "/posts", { token: editor, body: "{}" })),
+    ]);
+
+    expect(results).toEqual([
+      {
+        status: 400,
+        body: expect.objectContaining({ detail: "body is not JSON" }),
+      },
+      {
+        status: 400,
+        body: expect.objectContaining({
+          detail: `"title" must be a non-empty string`,
+        }),
+      },
+    ]);
+  });
+
+  test("404 for a missing post and for an unknown route", async () => {
+    const missing = await send(
+      request("DELETE", "/posts/99", { token: editor }),
+    );
+    const unknown = await send(request("GET", "/users", { token: editor }));
+
+    expect(missing).toEqual({
+      status: 404,
+      body: expect.objectContaining({ detail: "No post 99", postId: 99 }),
+    });
+    expect(unknown.status).toBe(404);
+  });
+
+  test("201 with the created post, 204 for a deleted one", async () => {
+    const created = await send(
+      request("POST", "/posts", {
+        token: editor,
+        body: JSON.stringify({ title: "Hello" }),
+      }),
+    );
+    const deleted = await run(
+      handle(request("DELETE", "/posts/2", { token: editor })),
+    );
+
+    expect(created).toEqual({ status: 201, body: { id: 3, title: "Hello" } });
+    expect(deleted.status).toBe(204);
+  });
+
+  test("concurrent requests each see their own user", async () => {
+    // Post 2 is user-1's: only their delete goes through
+    const [statuses, decisions] = await run(
+      Effect.gen(function* () {
+        const statuses = yield* Effect.all(
+          [
+            handle(request("DELETE", "/posts/2", { token: otherEditor })),
+            handle(request("DELETE", "/posts/2", { token: editor })),
+            handle(request("DELETE", "/posts/2", { token: otherEditor })),
+          ],
+          { concurrency: "unbounded" },
+        ).pipe(Effect.map((responses) => responses.map((r) => r.status)));
+        const audit = yield* AuditLog;
+        const entries = yield* audit.query({ resource: "posts" });
+        return [statuses, entries.map((entry) => entry.event)] as const;
+      }),
+    );
+
+    expect(statuses).toEqual([403, 204, 403]);
+    // The ownership checks, one per request, each by its own user
+    const ownership = decisions.flatMap((event) =>
+      "resourceId" in event && event.resourceId !== undefined
+        ? [[event.userId, event._tag]]
+        : [],
+    );
+    expect(ownership.sort()).toEqual([
+      ["user-1", "PermissionGranted"],
+      ["user-2", "PermissionDenied"],
+      ["user-2", "PermissionDenied"],
+    ]);
+  });
+});
@@ -0,0 +1,304 @@
+import { Effect, Layer, Runtime } from "effect";
+import { type AuditLog, InMemoryAuditLog } from "./audit-log.ts";
+import {
+  type AuthProvider,
+  JwtAuthProvider,
+  signJwt,
+  type TokenError,
+} from "./auth-provider.ts";
+import {
+  type AccessDenied,
+  authenticateWith,
+  authorize,
+  authorizeAll,
+  authorizeOwn,
+  createPost,
+  type CurrentUser,
+  deletePost,
+  listPosts,
+  type PostNotFound,
+  publishWorkflow,
+  type Unauthenticated,
+} from "./rbac.ts";
+import {
+  type Elevations,
+  type ElevationExpired,
+  InMemoryElevations,
+} from "./elevation.ts";
+import { InMemoryEventBroker, type Outbox, OutboxLive } from "./outbox.ts";
+import { FilePolicySource, type PolicySource } from "./policy-source.ts";
+import { OtlpFileTelemetry } from "./telemetry.ts";
+import { Transaction } from "./transaction.ts";
+
+// =============================================================================
+// Posts over HTTP - the workflows of ./rbac.ts behind a local Bun server
+//
+//   GET    /posts           listPosts        read:posts
+//   POST   /posts           createPost       write:posts
+//   DELETE /posts/:id       deletePost       read:posts + own delete:posts
+//   POST   /posts/publish   publishWorkflow  read:posts + write:posts
+//
+// POST bodies are JSON: { "title": "..." }.
+//
+// Every request is authenticated on its own, from its
+// `Authorization: Bearer <token>` header (authenticateWith), and runs in its
+// own fiber - CurrentUser is provided to that fiber only, so two concurrent
+// requests never see each other's user. Each request is a server span
+// named like "POST /posts"; the demo below writes spans to OTLP_FILE (see
+// ./telemetry.ts) and reads roles from POLICY_FILE, reloaded when it changes
+// (see ./policy-source.ts).
+//
+// Failures become application/problem+json responses (RFC 9457):
+//   - Unauthenticated, or a token the AuthProvider rejects -> 401
+//   - AccessDenied -> 403, listing the missing permissions
+//   - ElevationExpired -> 403, the "sudo" grant ran out mid-request
+//   - BadRequest -> 400
+//   - PostNotFound -> 404, like an unknown route; a defect -> 500
+// =============================================================================
+
+// --- Errors ---
+
+export class BadRequest extends Error {
+  readonly _tag = "BadRequest";
+  constructor(readonly reason: string) {
+    super(`Bad request: ${reason}`);
+  }
+}
+
+// --- Requests and responses ---
+
+// The token of an `Authorization: Bearer <token>` header, if there is one
+export const bearerToken = (request: Request) => {
+  const header = request.headers.get("authorization") ?? "";
+  return /^Bearer\s+(\S+)$/i.exec(header)?.[1];
+};
+
+const readTitle = (request: Request) =>
+  Effect.tryPromise({
+    try: () => request.json() as Promise<unknown>,
+    catch: () => new BadRequest("body is not JSON"),
+  }).pipe(
+    Effect.flatMap((body) => {
+      const title =
+        typeof body === "object" && body !== null && "title" in body
+          ? body.title
+          : undefined;
+      return typeof title === "string" && title !== ""
+        ? Effect.succeed(title)
+        : Effect.fail(new BadRequest(`"title" must be a non-empty string`));
+    }),
+  );
+
+const problem = (
+  status: number,
+  title: string,
+  detail: string,
+  extra: Record<string, unknown> = {},
+) =>
+  Response.json(
+    { type: "about:blank", title, status, detail, ...extra },
+    {
+      status,
+      headers: {
+        "content-type": "application/problem+json",
+        ...(status === 401 ? { "www-authenticate": "Bearer" } : {}),
+      },
+    },
+  );
+
+const toProblem = (
+  error:
+    | Unauthenticated
+    | TokenError
+    | AccessDenied
+    | ElevationExpired
+    | BadRequest
+    | PostNotFound,
+) => {
+  switch (error._tag) {
+    case "AccessDenied":
+      return problem(403, "Forbidden", error.message, {
+        missingPermissions: error.permissions,
+        ...(error.resourceId !== undefined
+          ? { resourceId: error.resourceId }
+          : {}),
+      });
+    case "ElevationExpired":
+      return problem(403, "Forbidden", error.message, {
+        elevationId: error.elevationId,
+      });
+    case "BadRequest":
+      return problem(400, "Bad Request", error.reason);
+    case "PostNotFound":
+      return problem(404, "Not Found", error.message, {
+        postId: error.postId,
+      });
+    default:
+      return problem(401, "Unauthorized", error.message);
+  }
+};
+
+// --- Routes ---
+
+// The workflow a request is for, authorized but not yet authenticated, or
+// undefined when no route matches
+const route = (
+  request: Request,
+):
+  | Effect.Effect<
+      Response,
+      BadRequest | AccessDenied | ElevationExpired | PostNotFound,
+      CurrentUser | AuditLog | PolicySource | Elevations | Outbox
+    >
+  | undefined => {
+  const { pathname } = new URL(request.url);
+  const deleteId = /^\/posts\/(\d+)$/.exec(pathname)?.[1];
+
+  if (request.method === "GET" && pathname === "/posts") {
+    return listPosts().pipe(
+      authorize("read", "posts"),
+      Effect.map((posts) => Response.json(posts)),
+    );
+  }
+  // The body is read once authorized: a caller who may not post gets a 403
+  // whatever they sent
+  if (request.method === "POST" && pathname === "/posts") {
+    return readTitle(request).pipe(
+      Effect.flatMap(createPost),
+      authorize("write", "posts"),
+      Effect.map((post) => Response.json(post, { status: 201 })),
+    );
+  }
+  if (request.method === "POST" && pathname === "/posts/publish") {
+    return readTitle(request).pipe(
+      Effect.flatMap((title) =>
+        publishWorkflow(title).pipe(Transaction.commit),
+      ),
+      authorizeAll("read:posts", "write:posts"),
+      Effect.map((post) => Response.json(post, { status: 201 })),
+    );
+  }
+  if (request.method === "DELETE" && deleteId !== undefined) {
+    return deletePost(Number(deleteId)).pipe(
+      authorizeOwn("delete", "posts"),
+      authorize("read", "posts"),
+      Effect.as(new Response(null, { status: 204 })),
+    );
+  }
+  return undefined;
+};
+
+// Answer one request. Never fails: every error is a response.
+export const handle = (
+  request: Request,
+): Effect.Effect<
+  Response,
+  never,
+  AuthProvider | AuditLog | PolicySource | Elevations | Outbox
+> => {
+  const { pathname } = new URL(request.url);
+  const workflow = route(request);
+  if (!workflow) {
+    return Effect.succeed(
+      problem(404, "Not Found", `No route for ${request.method} ${pathname}`),
+    );
+  }
+  return workflow.pipe(
+    authenticateWith(Effect.sync(() => bearerToken(request))),
+    Effect.catchAll((error) => Effect.succeed(toProblem(error))),
+    Effect.catchAllDefect((defect) =>
+      Effect.logError("[Server] Defect:", defect).pipe(
+        Effect.as(problem(500, "Internal Server Error", "Unexpected error")),
+      ),
+    ),
+    Effect.tap((response) =>
+      Effect.annotateCurrentSpan("http.status_code", response.status),
+    ),
+    Effect.withSpan(`${request.method} ${pathname}`, {
+      kind: "server",
+      attributes: { "http.method": request.method, "http.path": pathname },
+    }),
+  );
+};
+
+// --- Server ---
+
+export interface PostsServerOptions {
+  readonly port: number;
+}
+
+// Start the server for the lifetime of the scope. Requests run on the
+// runtime this is started in, so they share its AuthProvider, AuditLog,
+// PolicySource, Elevations and Outbox.
+export const servePosts = (options: PostsServerOptions) =>
+  Effect.gen(function* () {
+    const runtime = yield* Effect.runtime<
+      AuthProvider | AuditLog | PolicySource | Elevations | Outbox
+    >();
+    return yield* Effect.acquireRelease(
+      Effect.sync(() =>
+        Bun.serve({
+          port: options.port,
+          fetch: (request) => Runtime.runPromise(runtime, handle(request)),
+        }),
+      ),
+      (server) => Effect.promise(() => server.stop()),
+    );
+  });
+
+if (import.meta.main) {
+  const jwtOptions = {
+    secret: "demo-secret",
+    issuer: "effect-demo",
+    audience: "posts-api",
+  };
+  const tokenFor = (sub: string, roles: ReadonlyArray<string>) =>
+    signJwt(
+      {
+        sub,
+        email: `${sub}@example.com`,
+        tenant: "acme",
+        roles,
+        iss: jwtOptions.issuer,
+        aud: jwtOptions.audience,
+        exp: Math.floor(Date.now() / 1000) + 3600,
+      },
+      jwtOptions.secret,
+    );
+
+  const program = Effect.gen(function* () {
+    const server = yield* servePosts({
+      port: Number(process.env.PORT ?? 3000),
+    });
+    console.log(`[Server] Listening on ${server.url}`);
+    console.log("Try, as an editor (user-1) and a viewer (user-2):");
+    console.log(
+      `  curl -H "Authorization: Bearer ${tokenFor("user-1", ["editor"])}" ${server.url}posts`,
+    );
+    console.log(
+      `  curl -X DELETE -H "Authorization: Bearer ${tokenFor("user-2", ["viewer"])}" ${server.url}posts/1`,
+    );
+    return yield* Effect.never;
+  });
+
+  Effect.runPromise(
+    program.pipe(
+      Effect.scoped,
+      Effect.provide(
+        Layer.mergeAll(
+          JwtAuthProvider(jwtOptions),
+          InMemoryAuditLog,
+          InMemoryElevations,
+          OutboxLive().pipe(Layer.provide(InMemoryEventBroker())),
+          FilePolicySource({
+            path: process.env.POLICY_FILE ?? `${import.meta.dir}/policy.yaml`,
+          }),
+          OtlpFileTelemetry({
+            path: process.env.OTLP_FILE ?? "telemetry.otlp.jsonl",
+            serviceName: "posts-server",
+          }),
+        ),
+      ),
+    ),
+  );
+}
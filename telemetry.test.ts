@@ -0,0 +1,179 @@
+import { describe, expect, test } from "bun:test";
+import { readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Effect, Layer, Metric } from "effect";
+import { InMemoryAuditLog } from "./audit-log.ts";
+import { InMemoryElevations } from "./elevation.ts";
+import {
+  authorize,
+  BuiltInPolicy,
+  createPost,
+  CurrentUser,
+  listPosts,
+} from "./rbac.ts";
+import {
+  InMemoryTelemetry,
+  OtlpFileTelemetry,
+  permissionDenials,
+  permissionGrants,
+  RecordedSpans,
+} from "./telemetry.ts";
+
+const asUser = (id: string, roles: ReadonlyArray<string>) =>
+  Effect.provideService(CurrentUser, {
+    id,
+    email: `${id}@example.com`,
+    tenant: "acme",
+    roles,
+  });
+
+const count = (metric: typeof permissionGrants, permission: string) =>
+  Metric.value(Metric.tagged(metric, "permission", permission)).pipe(
+    Effect.map((state) => state.count),
+  );
+
+describe("InMemoryTelemetry", () => {
+  test("authorize runs in a span annotated with user and permission", async () => {
+    const spans = await Effect.gen(function* () {
+      yield* listPosts().pipe(
+        authorize("read", "posts"),
+        asUser("user-1", ["viewer"]),
+        Effect.withSpan("request"),
+      );
+      return yield* Effect.flatMap(RecordedSpans, (r) => r.spans);
+    }).pipe(
+      Effect.provide(
+        Layer.mergeAll(
+          InMemoryTelemetry,
+          InMemoryAuditLog,
+          BuiltInPolicy,
+          InMemoryElevations,
+        ),
+      ),
+      Effect.runPromise,
+    );
+
+    const [authorized, request] = spans;
+    expect(spans.map((s) => s.name)).toEqual(["authorize", "request"]);
+    expect(authorized?.parentSpanId).toBe(request?.spanId);
+    expect(authorized?.traceId).toBe(request?.traceId);
+    expect(authorized?.attributes).toEqual({
+      "permission.key": "read:posts",
+      "user.id": "user-1",
+      "policy.version": 1,
+      "permission.granted": true,
+    });
+  });
+
+  test("grants and denials are counted per permission", async () => {
+    const [granted, denied] = await Effect.gen(function* () {
+      const grantedBefore = yield* count(permissionGrants, "read:posts");
+      const deniedBefore = yield* count(permissionDenials, "write:posts");
+
+      yield* listPosts().pipe(authorize("read", "posts"));
+      const failed = yield* createPost("Nope").pipe(
+        authorize("write", "posts"),
+        Effect.flip,
+      );
+      expect(failed._tag).toBe("AccessDenied");
+
+      return [
+        (yield* count(permissionGrants, "read:posts")) - grantedBefore,
+        (yield* count(permissionDenials, "write:posts")) - deniedBefore,
+      ];
+    }).pipe(
+      asUser("user-2", ["viewer"]),
+      Effect.provide(
+        Layer.mergeAll(InMemoryAuditLog, BuiltInPolicy, InMemoryElevations),
+      ),
+      Effect.runPromise,
+    );
+
+    expect(granted).toBe(1);
+    expect(denied).toBe(1);
+  });
+});
+
+describe("OtlpFileTelemetry", () => {
+  test("writes spans and a metrics snapshot as OTLP/JSON lines", async () => {
+    const path = join(tmpdir(), `telemetry-${process.pid}.otlp.jsonl`);
+    rmSync(path, { force: true });
+
+    await listPosts().pipe(
+      authorize("read", "posts"),
+      asUser("user-1", ["viewer"]),
+      Effect.provide(
+        Layer.mergeAll(
+          OtlpFileTelemetry({ path, serviceName: "test" }),
+          InMemoryAuditLog,
+          BuiltInPolicy,
+          InMemoryElevations,
+        ),
+      ),
+      Effect.runPromise,
+    );
+
+    const lines = readFileSync(path, "utf8")
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line));
+    rmSync(path);
+
+    const [traces, metrics] = lines;
+    const span = traces.resourceSpans[0].scopeSpans[0].spans[0];
+    expect(span.name).toBe("authorize");
+    expect(span.status).toEqual({ code: 1 });
+    expect(span.attributes).toContainEqual({
+      key: "permission.key",
+      value: { stringValue: "read:posts" },
+    });
+    const names = metrics.resourceMetrics[0].scopeMetrics[0].metrics.map(
+      (m: { name: string }) => m.name,
+    );
+    expect(names).toContain("rbac.permission.granted");
+  });
+
+  test("every span queued before the layer is released is written", async () => {
+    const path = join(tmpdir(), `telemetry-batch-${process.pid}.otlp.jsonl`);
+    rmSync(path, { force: true });
+
+    await Effect.forEach(
+      Array.from({ length: 50 }, (_, i) => i),
+      (i) =>
+        listPosts().pipe(
+          authorize("read", "posts"),
+          asUser(`user-${i}`, ["viewer"]),
+        ),
+      { concurrency: "unbounded", discard: true },
+    ).pipe(
+      Effect.provide(
+        Layer.mergeAll(
+          OtlpFileTelemetry({ path, serviceName: "test" }),
+          InMemoryAuditLog,
+          BuiltInPolicy,
+          InMemoryElevations,
+        ),
+      ),
+      Effect.runPromise,
+    );
+
+    const lines = readFileSync(path, "utf8")
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line));
+    rmSync(path);
+
+    const users = lines
+      .filter((line) => "resourceSpans" in line)
+      .map(
+        (line) =>
+          line.resourceSpans[0].scopeSpans[0].spans[0].attributes.find(
+            (a: { key: string }) => a.key === "user.id",
+          ).value.stringValue,
+      );
+    expect(new Set(users).size).toBe(50);
+    // The metrics snapshot taken on release comes last
+    expect(lines.at(-1)).toHaveProperty("resourceMetrics");
+  });
+});
@@ -0,0 +1,411 @@
+import { randomBytes } from "node:crypto";
+import { appendFile } from "node:fs/promises";
+import {
+  Chunk,
+  Clock,
+  Context,
+  Duration,
+  Effect,
+  Exit,
+  Layer,
+  Metric,
+  MetricBoundaries,
+  MetricKeyType,
+  MetricState,
+  Option,
+  Queue,
+  Schedule,
+  Tracer,
+} from "effect";
+import type * as MetricPair from "effect/MetricPair";
+
+// =============================================================================
+// Telemetry - spans and metrics for what used to be only console output
+//
+// Transaction.commit, authenticate, the authorizers, RateLimiter, Mutex and
+// every CosmosClient method run inside an Effect span (`Effect.withSpan`)
+// annotated with the user id, permission key, document id... Spans nest, so
+// everything a request does shares its trace id, even when requests run
+// concurrently.
+//
+// Where spans go is decided by the layer provided at the edge:
+//   - InMemoryTelemetry: keeps finished spans in memory, read them back via
+//     RecordedSpans. For tests.
+//   - OtlpFileTelemetry: appends OTLP/JSON (what the OpenTelemetry
+//     collector's file exporter writes) to a file, one export request per
+//     line, to look at offline. Lines are queued and written in batches by
+//     a background fiber, never on the fiber that ended the span.
+// Without either, spans are created but not exported.
+//
+// What the modules log goes through Effect.log*, not the console, so the
+// logger provided at the edge decides where it ends up, and each line
+// carries the spans it was logged in. Only the demos print directly.
+//
+// The metrics below are Effect metrics, kept in the global registry; the
+// OTLP file exporter writes a snapshot of them every `metricsInterval` and
+// when its scope closes.
+// =============================================================================
+
+// --- Metrics ---
+
+// Tagged with `permission` ("write:posts")
+export const permissionGrants = Metric.counter("rbac.permission.granted", {
+  description: "Permission checks that were granted",
+  incremental: true,
+});
+
+// Tagged with `permission` ("write:posts")
+export const permissionDenials = Metric.counter("rbac.permission.denied", {
+  description: "Permission checks that were denied",
+  incremental: true,
+});
+
+const milliseconds = MetricBoundaries.exponential({
+  start: 1,
+  factor: 2,
+  count: 16,
+});
+
+// How long each acquire waited for a slot, 0 when one was free.
+// Tagged with the rate limit `key`.
+export const rateLimitWait = Metric.histogram(
+  "rate_limiter.wait_ms",
+  milliseconds,
+  "Time spent waiting for a rate limit slot",
+);
+
+// From acquiring a lock to releasing it. Tagged with the mutex `key`.
+export const lockHoldTime = Metric.histogram(
+  "mutex.hold_ms",
+  milliseconds,
+  "Time a mutex key was held",
+);
+
+// --- Spans ---
+
+export interface SpanEvent {
+  readonly name: string;
+  // Epoch nanoseconds
+  readonly time: bigint;
+  readonly attributes: Readonly<Record<string, unknown>>;
+}
+
+// A span once it has ended, as handed to the exporters
+export interface FinishedSpan {
+  readonly traceId: string;
+  readonly spanId: string;
+  readonly parentSpanId?: string;
+  readonly name: string;
+  readonly kind: Tracer.SpanKind;
+  // Epoch nanoseconds
+  readonly startTime: bigint;
+  readonly endTime: bigint;
+  readonly attributes: Readonly<Record<string, unknown>>;
+  readonly events: ReadonlyArray<SpanEvent>;
+  // The failure (or interruption) that ended the span, if any
+  readonly error?: string;
+}
+
+const hexId = (bytes: number) => randomBytes(bytes).toString("hex");
+
+// A Tracer whose spans call `onEnd` when they end
+export const makeRecordingTracer = (
+  onEnd: (span: FinishedSpan) => void,
+): Tracer.Tracer =>
+  Tracer.make({
+    span: (name, parent, context, links, startTime, kind, options) => {
+      const attributes = new Map<string, unknown>(
+        Object.entries(options?.attributes ?? {}),
+      );
+      const events: Array<SpanEvent> = [];
+      const allLinks = [...links];
+      let status: Tracer.SpanStatus = { _tag: "Started", startTime };
+      const parentSpanId = Option.map(parent, (p) => p.spanId);
+      const span: Tracer.Span = {
+        _tag: "Span",
+        name,
+        spanId: hexId(8),
+        traceId: Option.match(parent, {
+          onNone: () => hexId(16),
+          onSome: (p) => p.traceId,
+        }),
+        parent,
+        context,
+        get status() {
+          return status;
+        },
+        attributes,
+        links: allLinks,
+        sampled: true,
+        kind,
+        attribute: (key, value) => {
+          attributes.set(key, value);
+        },
+        event: (name, time, eventAttributes) => {
+          events.push({ name, time, attributes: eventAttributes ?? {} });
+        },
+        addLinks: (added) => {
+          allLinks.push(...added);
+        },
+        end: (endTime, exit) => {
+          status = { _tag: "Ended", startTime, endTime, exit };
+          onEnd({
+            traceId: span.traceId,
+            spanId: span.spanId,
+            ...Option.match(parentSpanId, {
+              onNone: () => ({}),
+              onSome: (id) => ({ parentSpanId: id }),
+            }),
+            name,
+            kind,
+            startTime,
+            endTime,
+            attributes: Object.fromEntries(attributes),
+            events,
+            ...(Exit.isFailure(exit) ? { error: String(exit.cause) } : {}),
+          });
+        },
+      };
+      return span;
+    },
+    context: (f) => f(),
+  });
+
+// =============================================================================
+// In-memory exporter
+// =============================================================================
+
+export class RecordedSpans extends Context.Tag("@app/RecordedSpans")<
+  RecordedSpans,
+  {
+    // Finished spans, in the order they ended
+    readonly spans: Effect.Effect<ReadonlyArray<FinishedSpan>>;
+    readonly clear: Effect.Effect<void>;
+  }
+>() {}
+
+export const InMemoryTelemetry = Layer.unwrapEffect(
+  Effect.sync(() => {
+    const spans: Array<FinishedSpan> = [];
+    return Layer.merge(
+      Layer.setTracer(makeRecordingTracer((span) => spans.push(span))),
+      Layer.succeed(
+        RecordedSpans,
+        RecordedSpans.of({
+          spans: Effect.sync(() => [...spans]),
+          clear: Effect.sync(() => {
+            spans.length = 0;
+          }),
+        }),
+      ),
+    );
+  }),
+);
+
+// =============================================================================
+// OTLP/JSON file exporter
+// =============================================================================
+
+// OTLP AnyValue
+const otlpValue = (value: unknown): unknown => {
+  if (typeof value === "string") return { stringValue: value };
+  if (typeof value === "boolean") return { boolValue: value };
+  if (typeof value === "bigint") return { intValue: String(value) };
+  if (typeof value === "number") {
+    return Number.isInteger(value)
+      ? { intValue: String(value) }
+      : { doubleValue: value };
+  }
+  if (Array.isArray(value)) {
+    return { arrayValue: { values: value.map(otlpValue) } };
+  }
+  return { stringValue: JSON.stringify(value) };
+};
+
+const otlpAttributes = (attributes: Readonly<Record<string, unknown>>) =>
+  Object.entries(attributes).map(([key, value]) => ({
+    key,
+    value: otlpValue(value),
+  }));
+
+const otlpSpanKind: Record<Tracer.SpanKind, number> = {
+  internal: 1,
+  server: 2,
+  client: 3,
+  producer: 4,
+  consumer: 5,
+};
+
+const otlpSpan = (span: FinishedSpan) => ({
+  traceId: span.traceId,
+  spanId: span.spanId,
+  ...(span.parentSpanId !== undefined
+    ? { parentSpanId: span.parentSpanId }
+    : {}),
+  name: span.name,
+  kind: otlpSpanKind[span.kind],
+  startTimeUnixNano: String(span.startTime),
+  endTimeUnixNano: String(span.endTime),
+  attributes: otlpAttributes(span.attributes),
+  events: span.events.map((event) => ({
+    name: event.name,
+    timeUnixNano: String(event.time),
+    attributes: otlpAttributes(event.attributes),
+  })),
+  // STATUS_CODE_OK = 1, STATUS_CODE_ERROR = 2
+  status:
+    span.error === undefined ? { code: 1 } : { code: 2, message: span.error },
+});
+
+// Counters become sums (monotonic when incremental), gauges gauges, histograms histograms.
+// Other kinds (frequency, summary) are left out.
+const otlpMetric = (pair: MetricPair.MetricPair.Untyped, time: string) => {
+  const { metricKey: key, metricState: state } = pair;
+  const base = {
+    name: key.name,
+    ...Option.match(key.description, {
+      onNone: () => ({}),
+      onSome: (description) => ({ description }),
+    }),
+  };
+  const attributes = otlpAttributes(
+    Object.fromEntries(key.tags.map((tag) => [tag.key, tag.value])),
+  );
+  // AGGREGATION_TEMPORALITY_CUMULATIVE
+  const aggregationTemporality = 2;
+
+  if (MetricState.isCounterState(state)) {
+    return {
+      ...base,
+      sum: {
+        dataPoints: [
+          { attributes, timeUnixNano: time, asDouble: Number(state.count) },
+        ],
+        aggregationTemporality,
+        isMonotonic:
+          MetricKeyType.isCounterKey(key.keyType) && key.keyType.incremental,
+      },
+    };
+  }
+  if (MetricState.isGaugeState(state)) {
+    return {
+      ...base,
+      gauge: {
+        dataPoints: [
+          { attributes, timeUnixNano: time, asDouble: Number(state.value) },
+        ],
+      },
+    };
+  }
+  if (MetricState.isHistogramState(state)) {
+    // Effect's buckets are cumulative and end at +Infinity; OTLP wants a
+    // count per bucket and only the finite bounds
+    const counts = state.buckets.map(
+      ([, count], i) => count - (state.buckets[i - 1]?.[1] ?? 0),
+    );
+    return {
+      ...base,
+      histogram: {
+        dataPoints: [
+          {
+            attributes,
+            timeUnixNano: time,
+            count: String(state.count),
+            sum: state.sum,
+            ...(state.count > 0 ? { min: state.min, max: state.max } : {}),
+            bucketCounts: counts.map(String),
+            explicitBounds: state.buckets
+              .map(([bound]) => bound)
+              .filter(Number.isFinite),
+          },
+        ],
+        aggregationTemporality,
+      },
+    };
+  }
+  return undefined;
+};
+
+export interface OtlpFileTelemetryOptions {
+  readonly path: string;
+  // The `service.name` resource attribute
+  readonly serviceName: string;
+  // How often to write a metrics snapshot. Default: 10 seconds.
+  readonly metricsInterval?: Duration.DurationInput;
+}
+
+// Each finished span is queued as its own ExportTraceServiceRequest line
+// as soon as it ends, and metrics as ExportMetricsServiceRequest lines. A
+// writer fiber appends whatever is queued in one write; when the scope
+// closes, a last metrics snapshot and everything still queued are written
+// before the layer is released.
+export const OtlpFileTelemetry = (options: OtlpFileTelemetryOptions) =>
+  Layer.unwrapScoped(
+    Effect.gen(function* () {
+      const resource = {
+        attributes: otlpAttributes({ "service.name": options.serviceName }),
+      };
+      const scope = { name: "effect-demo" };
+      const queue = yield* Queue.unbounded<string>();
+      // Called from the tracer, which can't run effects
+      const append = (line: unknown) =>
+        Queue.unsafeOffer(queue, JSON.stringify(line) + "\n");
+
+      const write = (lines: Chunk.Chunk<string>) =>
+        Effect.tryPromise(() =>
+          appendFile(options.path, Chunk.join(lines, "")),
+        ).pipe(
+          Effect.catchAll((error) =>
+            Effect.logError(
+              `[Telemetry] Dropped ${lines.length} lines for ${options.path}`,
+              error.cause,
+            ),
+          ),
+        );
+      // A batch taken off the queue is always written, even on interruption
+      const writeNext = Effect.uninterruptibleMask((restore) =>
+        restore(Queue.takeBetween(queue, 1, Number.MAX_SAFE_INTEGER)).pipe(
+          Effect.flatMap(write),
+        ),
+      );
+      const flush = Queue.takeAll(queue).pipe(
+        Effect.flatMap((lines) =>
+          Chunk.isEmpty(lines) ? Effect.void : write(lines),
+        ),
+      );
+
+      // Finalizers run last added first: the metrics snapshot below, then
+      // the writer stops, then what's left is flushed
+      yield* Effect.addFinalizer(() => flush);
+      yield* Effect.forkScoped(Effect.forever(writeNext));
+
+      const exportMetrics = Effect.gen(function* () {
+        const time = String(yield* Clock.currentTimeNanos);
+        const metrics = (yield* Metric.snapshot)
+          .map((pair) => otlpMetric(pair, time))
+          .filter((metric) => metric !== undefined);
+        if (metrics.length === 0) return;
+        append({
+          resourceMetrics: [{ resource, scopeMetrics: [{ scope, metrics }] }],
+        });
+      });
+
+      const interval = options.metricsInterval ?? Duration.seconds(10);
+      yield* exportMetrics.pipe(
+        Effect.delay(interval),
+        Effect.repeat(Schedule.spaced(interval)),
+        Effect.forkScoped,
+      );
+      yield* Effect.addFinalizer(() => exportMetrics);
+
+      return Layer.setTracer(
+        makeRecordingTracer((span) =>
+          append({
+            resourceSpans: [
+              { resource, scopeSpans: [{ scope, spans: [otlpSpan(span)] }] },
+            ],
+          }),
+        ),
+      );
+    }),
+  );
@@ -0,0 +1,529 @@
+import { Context, Duration, Effect, Either, Layer, Option } from "effect";
+import {
+  AuditLog,
+  type AuditEvent,
+  makeInMemoryAuditLog,
+} from "./audit-log.ts";
+import { JwtAuthProvider, signJwt } from "./auth-provider.ts";
+import { LoggedInUser } from "./auth.ts";
+import {
+  CosmosClient,
+  type InMemoryCosmosOptions,
+  makeInMemoryCosmos,
+} from "./cosmos.ts";
+import { InMemoryElevations } from "./elevation.ts";
+import { DEFAULT_KEY, makeMutex, Mutex, type MutexOptions } from "./mutex.ts";
+import {
+  type DomainEvent,
+  EventBroker,
+  type EventHandlers,
+  makeInMemoryEventBroker,
+  OutboxLive,
+  type OutboxOptions,
+} from "./outbox.ts";
+import { StaticPolicySource } from "./policy-source.ts";
+import { RateLimited, RateLimiter } from "./rate-limiter.ts";
+import { buildTenantPolicies, type TenantPolicies } from "./rbac-policy.ts";
+import {
+  authenticateWith,
+  authorizeAll,
+  CurrentUser,
+  rolePermissions,
+  Tenant,
+} from "./rbac.ts";
+import { Transaction } from "./transaction.ts";
+
+// =============================================================================
+// Test kit - recording fakes and timeline assertions
+//
+// TestKit provides CosmosClient, RateLimiter, Mutex, AuditLog, Outbox and
+// PolicySource for tests. Each of them appends what it does to one shared
+// Timeline, in the order it happened:
+//
+//   - every Cosmos call, with the transaction, user, tenant and held locks it
+//     ran under (the documents really are stored, in memory)
+//   - every rate limit slot taken or refused
+//   - every lock acquired and released
+//   - every domain event the Outbox publishes
+//   - everything sent to the AuditLog, so BEGIN / COMMIT / ROLLBACK too
+//
+// assertInOrder and assertBetween then check the timeline, e.g. "the
+// upsert happened between BEGIN and COMMIT, while the lock was held":
+//
+//   const upsert = cosmosCall("upsertDocument");
+//   yield* assertBetween(upsert, { after: begin, before: commit });
+//   yield* assertBetween(upsert, { after: locked, before: unlocked });
+//
+// withUser signs in as a user with the given roles, and grantAll grants
+// permissions whatever those roles are.
+// =============================================================================
+
+// --- Timeline ---
+
+export interface CosmosCalled {
+  readonly _tag: "CosmosCalled";
+  readonly method: keyof CosmosClient["Type"];
+  readonly container: string;
+  // Not set for queries
+  readonly documentId?: string;
+  readonly userId: string;
+  readonly tenant: string;
+  // The transaction the call ran in, and its savepoint if nested
+  readonly transactionId: number;
+  readonly savepoint?: string;
+  // Mutex keys held at the time, by anyone
+  readonly locks: ReadonlyArray<string>;
+}
+
+export interface RateLimitChecked {
+  readonly _tag:
+    "RateLimitAcquired" | "RateLimitRejected" | "RateLimitThrottled";
+  readonly key: string;
+}
+
+export interface LockChanged {
+  readonly _tag: "LockAcquired" | "LockReleased";
+  readonly key: string;
+}
+
+export interface EventPublished {
+  readonly _tag: "EventPublished";
+  readonly event: DomainEvent;
+}
+
+export type TimelineEvent =
+  AuditEvent | CosmosCalled | RateLimitChecked | LockChanged | EventPublished;
+
+export class Timeline extends Context.Tag("@app/Timeline")<
+  Timeline,
+  {
+    readonly record: (event: TimelineEvent) => Effect.Effect<void>;
+    // Everything recorded so far, oldest first
+    readonly events: Effect.Effect<ReadonlyArray<TimelineEvent>>;
+  }
+>() {}
+
+// Everything on the Timeline so far
+export const timelineEvents = Effect.flatMap(Timeline, (t) => t.events);
+
+export const makeTimeline = Effect.sync(() => {
+  const events: Array<TimelineEvent> = [];
+  return Timeline.of({
+    record: (event) => Effect.sync(() => events.push(event)),
+    events: Effect.sync(() => [...events]),
+  });
+});
+
+// Mutex keys held after the given events
+const heldLocks = (events: ReadonlyArray<TimelineEvent>) => {
+  const held = new Set<string>();
+  for (const event of events) {
+    if (event._tag === "LockAcquired") held.add(event.key);
+    if (event._tag === "LockReleased") held.delete(event.key);
+  }
+  return [...held];
+};
+
+// =============================================================================
+// Recording fakes
+// =============================================================================
+
+// The in-memory AuditLog, with every event also added to the Timeline
+export const makeRecordingAuditLog = Effect.gen(function* () {
+  const timeline = yield* Timeline;
+  const audit = yield* makeInMemoryAuditLog;
+  return AuditLog.of({
+    ...audit,
+    record: (event) =>
+      audit.record(event).pipe(Effect.zipRight(timeline.record(event))),
+  });
+});
+
+// The in-memory Cosmos (./cosmos.ts), recording each call before it runs
+export const makeRecordingCosmos = (options: InMemoryCosmosOptions) =>
+  Effect.gen(function* () {
+    const timeline = yield* Timeline;
+    const cosmos = yield* makeInMemoryCosmos(options);
+
+    // Transaction, LoggedInUser and Tenant are required by every method,
+    // so they are always there to read
+    const recorded = <A, E, R>(
+      method: CosmosCalled["method"],
+      container: string,
+      documentId: string | undefined,
+      call: Effect.Effect<A, E, R>,
+    ) =>
+      Effect.gen(function* () {
+        const tx = yield* Effect.serviceOption(Transaction);
+        const user = yield* Effect.serviceOption(LoggedInUser);
+        const tenant = yield* Effect.serviceOption(Tenant);
+        const events = yield* timeline.events;
+        yield* timeline.record({
+          _tag: "CosmosCalled",
+          method,
+          container,
+          ...(documentId !== undefined ? { documentId } : {}),
+          userId: Option.match(user, { onNone: () => "", onSome: (u) => u.id }),
+          tenant: Option.match(tenant, {
+            onNone: () => "",
+            onSome: (t) => t.id,
+          }),
+          transactionId: Option.match(tx, {
+            onNone: () => 0,
+            onSome: (t) => t.id,
+          }),
+          ...Option.match(
+            Option.flatMap(tx, (t) => t.savepoint),
+            {
+              onNone: () => ({}),
+              onSome: (savepoint) => ({ savepoint }),
+            },
+          ),
+          locks: heldLocks(events),
+        });
+        return yield* call;
+      });
+
+    return CosmosClient.of({
+      getDocument: (id, opts) =>
+        recorded(
+          "getDocument",
+          opts.container,
+          id,
+          cosmos.getDocument(id, opts),
+        ),
+      query: (sql, opts) =>
+        recorded("query", opts.container, undefined, cosmos.query(sql, opts)),
+      createDocument: (doc, opts) =>
+        recorded(
+          "createDocument",
+          opts.container,
+          doc.id,
+          cosmos.createDocument(doc, opts),
+        ),
+      replaceDocument: (doc, opts) =>
+        recorded(
+          "replaceDocument",
+          opts.container,
+          doc.id,
+          cosmos.replaceDocument(doc, opts),
+        ),
+      upsertDocument: (doc, opts) =>
+        recorded(
+          "upsertDocument",
+          opts.container,
+          doc.id,
+          cosmos.upsertDocument(doc, opts),
+        ),
+      deleteDocument: (id, opts) =>
+        recorded(
+          "deleteDocument",
+          opts.container,
+          id,
+          cosmos.deleteDocument(id, opts),
+        ),
+    });
+  });
+
+export interface RecordingRateLimiterOptions {
+  // Slots per key before acquiring fails with RateLimited. Unlimited when
+  // omitted.
+  readonly limit?: number;
+}
+
+// Counts slots per key and never waits: past `limit` acquiring fails at once,
+// with a retry-after of one second, and throttling is recorded and let through
+export const makeRecordingRateLimiter = (
+  options: RecordingRateLimiterOptions = {},
+) =>
+  Effect.gen(function* () {
+    const timeline = yield* Timeline;
+    const taken = new Map<string, number>();
+
+    const acquireKey = (key: string) =>
+      Effect.suspend(() => {
+        const count = taken.get(key) ?? 0;
+        if (options.limit !== undefined && count >= options.limit) {
+          return timeline
+            .record({ _tag: "RateLimitRejected", key })
+            .pipe(
+              Effect.zipRight(
+                Effect.fail(new RateLimited(key, Duration.seconds(1))),
+              ),
+            );
+        }
+        taken.set(key, count + 1);
+        return timeline.record({ _tag: "RateLimitAcquired", key });
+      });
+
+    const throttleKey = (key: string) =>
+      Effect.suspend(() => {
+        const count = taken.get(key) ?? 0;
+        taken.set(key, count + 1);
+        return timeline.record({
+          _tag:
+            options.limit !== undefined && count >= options.limit
+              ? "RateLimitThrottled"
+              : "RateLimitAcquired",
+          key,
+        });
+      });
+
+    return RateLimiter.of({
+      acquire: Effect.flatMap(LoggedInUser, (user) => acquireKey(user.id)),
+      acquireKey,
+      throttle: Effect.flatMap(LoggedInUser, (user) => throttleKey(user.id)),
+      throttleKey,
+    });
+  });
+
+// The real Mutex (./mutex.ts), recording when each key is acquired and
+// released
+export const makeRecordingMutex = (options: MutexOptions = {}) =>
+  Effect.gen(function* () {
+    const timeline = yield* Timeline;
+    const mutex = yield* makeMutex(options);
+
+    const acquireKey = (key: string) =>
+      mutex.acquireKey(key).pipe(
+        Effect.zipRight(timeline.record({ _tag: "LockAcquired", key })),
+        // Added after the unlock, so it runs just before it
+        Effect.zipRight(
+          Effect.addFinalizer(() =>
+            timeline.record({ _tag: "LockReleased", key }),
+          ),
+        ),
+        Effect.uninterruptible,
+      );
+
+    return Mutex.of({ acquire: acquireKey(DEFAULT_KEY), acquireKey });
+  });
+
+// The local broker (./outbox.ts), recording each event published to it
+// before its handlers run
+export const makeRecordingEventBroker = (handlers: EventHandlers = {}) =>
+  Effect.gen(function* () {
+    const timeline = yield* Timeline;
+    const broker = yield* makeInMemoryEventBroker(handlers);
+    return EventBroker.of({
+      publish: (event) =>
+        timeline
+          .record({ _tag: "EventPublished", event })
+          .pipe(Effect.zipRight(broker.publish(event))),
+    });
+  });
+
+export interface TestKitOptions {
+  // Default: empty "users" and "counters" containers, keyed by "/id"
+  readonly cosmos?: InMemoryCosmosOptions;
+  readonly rateLimiter?: RecordingRateLimiterOptions;
+  readonly mutex?: MutexOptions;
+  // Default: the roles of ./rbac.ts
+  readonly policies?: TenantPolicies;
+  // Handlers of the domain events the Outbox publishes. Default: none
+  readonly events?: EventHandlers;
+  readonly outbox?: OutboxOptions;
+}
+
+// Every recording fake plus a PolicySource, Elevations and an Outbox,
+// sharing one Timeline
+export const TestKit = (options: TestKitOptions = {}) =>
+  Layer.mergeAll(
+    Layer.effect(
+      CosmosClient,
+      makeRecordingCosmos(
+        options.cosmos ?? {
+          containers: {
+            users: { partitionKey: "/id" },
+            counters: { partitionKey: "/id" },
+          },
+        },
+      ),
+    ),
+    Layer.effect(RateLimiter, makeRecordingRateLimiter(options.rateLimiter)),
+    Layer.effect(Mutex, makeRecordingMutex(options.mutex)),
+    StaticPolicySource(options.policies ?? rolePermissions),
+    InMemoryElevations,
+    OutboxLive(options.outbox).pipe(
+      Layer.provide(
+        Layer.effect(EventBroker, makeRecordingEventBroker(options.events)),
+      ),
+    ),
+  ).pipe(
+    Layer.provideMerge(Layer.effect(AuditLog, makeRecordingAuditLog)),
+    Layer.provideMerge(Layer.effect(Timeline, makeTimeline)),
+  );
+
+export type TestKitServices = Layer.Layer.Success<ReturnType<typeof TestKit>>;
+
+// =============================================================================
+// Users and permissions
+// =============================================================================
+
+export interface TestUser {
+  // Default: "user-1"
+  readonly id?: string;
+  // Default: "<id>@example.com"
+  readonly email?: string;
+  // Default: "acme"
+  readonly tenant?: string;
+  readonly roles: ReadonlyArray<string>;
+}
+
+const testJwt = {
+  secret: "test-kit",
+  issuer: "test-kit",
+  audience: "test-kit",
+};
+
+// Sign in as `user`: provides CurrentUser, LoggedInUser and Tenant through
+// the same `authenticateWith` as production code, with a token signed here.
+// Usage: `program.pipe(authorize("read", "posts"), withUser({ roles: ["viewer"] }))`
+export const withUser =
+  (user: TestUser) =>
+  <A, E, R>(effect: Effect.Effect<A, E, R>) => {
+    const id = user.id ?? "user-1";
+    const token = Effect.sync(() =>
+      signJwt(
+        {
+          sub: id,
+          email: user.email ?? `${id}@example.com`,
+          tenant: user.tenant ?? "acme",
+          roles: user.roles,
+          iss: testJwt.issuer,
+          aud: testJwt.audience,
+          exp: Math.floor(Date.now() / 1000) + 3600,
+        },
+        testJwt.secret,
+      ),
+    );
+    return effect.pipe(
+      authenticateWith(token),
+      Effect.provide(JwtAuthProvider(testJwt)),
+    );
+  };
+
+// A policy in which each of `roles` allows everything
+const allowEverything = (roles: ReadonlyArray<string>) =>
+  buildTenantPolicies({
+    "*": Object.fromEntries(roles.map((role) => [role, { allow: ["*:*"] }])),
+  }).pipe(Either.getOrThrowWith((error) => error));
+
+// grantAll: like authorizeAll, but every listed permission is granted to
+// any user with at least one role, against a policy that allows everything.
+// For tests about what the code does once allowed, not who is allowed.
+// Nested authorizers see the same policy.
+// Usage: `doSomethingComplex(id).pipe(Transaction.commit, grantAll("read:users", "write:users"))`
+export const grantAll =
+  <const P extends ReadonlyArray<`${string}:${string}`>>(...permissions: P) =>
+  <A, E, R>(effect: Effect.Effect<A, E, R>) =>
+    Effect.flatMap(CurrentUser, (user) =>
+      effect.pipe(
+        authorizeAll(...permissions),
+        Effect.provide(StaticPolicySource(allowEverything(user.roles))),
+      ),
+    );
+
+// =============================================================================
+// Timeline assertions
+// =============================================================================
+
+// Matches the events with this `_tag` whose other given fields are equal
+export type EventPattern = TimelineEvent extends infer E
+  ? E extends { readonly _tag: infer T }
+    ? { readonly _tag: T } & Partial<E>
+    : never
+  : never;
+
+// Patterns for the common events
+export const begin: EventPattern = { _tag: "TransactionBegan" };
+export const commit: EventPattern = { _tag: "TransactionCommitted" };
+export const rollback: EventPattern = { _tag: "TransactionRolledBack" };
+export const locked: EventPattern = { _tag: "LockAcquired" };
+export const unlocked: EventPattern = { _tag: "LockReleased" };
+export const cosmosCall = (
+  method: CosmosCalled["method"],
+  fields: Partial<CosmosCalled> = {},
+): EventPattern => ({ ...fields, _tag: "CosmosCalled", method });
+
+export class TimelineMismatch extends Error {
+  readonly _tag = "TimelineMismatch";
+  constructor(
+    readonly expected: string,
+    readonly events: ReadonlyArray<TimelineEvent>,
+  ) {
+    super(
+      `Expected ${expected}. Timeline:\n` +
+        events
+          .map((event, i) => `  ${i + 1}. ${JSON.stringify(event)}`)
+          .join("\n"),
+    );
+  }
+}
+
+export const matches = (event: TimelineEvent, pattern: EventPattern) =>
+  Object.entries(pattern).every(
+    ([field, value]) =>
+      JSON.stringify((event as unknown as Record<string, unknown>)[field]) ===
+      JSON.stringify(value),
+  );
+
+const describePattern = (pattern: EventPattern) => JSON.stringify(pattern);
+
+// Events matching each pattern, in this order. Other events may come
+// in between.
+export const assertInOrder = (...patterns: ReadonlyArray<EventPattern>) =>
+  Effect.gen(function* () {
+    const events = yield* timelineEvents;
+    let from = 0;
+    for (const pattern of patterns) {
+      const found = events.findIndex(
+        (event, i) => i >= from && matches(event, pattern),
+      );
+      if (found < 0) {
+        return yield* Effect.fail(
+          new TimelineMismatch(
+            `${patterns.map(describePattern).join(" then ")}, missing ${describePattern(pattern)}`,
+            events,
+          ),
+        );
+      }
+      from = found + 1;
+    }
+  });
+
+export interface Window {
+  readonly after: EventPattern;
+  readonly before: EventPattern;
+}
+
+// An event matching `pattern` that happened inside `window`: after an
+// `after` event, with no `before` event in between, and followed by a
+// `before` event.
+// Usage: `assertBetween(cosmosCall("upsertDocument"), { after: begin, before: commit })`
+export const assertBetween = (pattern: EventPattern, window: Window) =>
+  Effect.gen(function* () {
+    const events = yield* timelineEvents;
+    const inside = events.some((event, i) => {
+      if (!matches(event, pattern)) return false;
+      const opened = events.findLastIndex(
+        (e, j) => j < i && matches(e, window.after),
+      );
+      if (opened < 0) return false;
+      const closedEarlier = events
+        .slice(opened + 1, i)
+        .some((e) => matches(e, window.before));
+      const closedLater = events
+        .slice(i + 1)
+        .some((e) => matches(e, window.before));
+      return !closedEarlier && closedLater;
+    });
+    if (!inside) {
+      return yield* Effect.fail(
+        new TimelineMismatch(
+          `${describePattern(pattern)} between ${describePattern(window.after)} and ${describePattern(window.before)}`,
+          events,
+        ),
+      );
+    }
+  });
@@ -0,0 +1,157 @@
+import { describe, expect, test } from "bun:test";
+import { Deferred, Effect, Fiber } from "effect";
+import { AuditLog, InMemoryAuditLog } from "./audit-log.ts";
+import { Transaction } from "./transaction.ts";
+
+// Transactions on their own: writes are stand-ins that register how to undo
+// themselves, and what ran is collected in `log`
+
+class Boom extends Error {
+  readonly _tag = "Boom";
+}
+
+const run = <A, E>(effect: Effect.Effect<A, E, AuditLog>) =>
+  effect.pipe(Effect.provide(InMemoryAuditLog), Effect.runPromise);
+
+const makeLog = () => {
+  const log: Array<string> = [];
+  const note = (line: string) => Effect.sync(() => log.push(line));
+  // A "write" that logs itself and its undo
+  const write = (name: string) =>
+    Effect.gen(function* () {
+      const tx = yield* Transaction;
+      yield* note(`write ${name}`);
+      yield* tx.onRollback(note(`undo ${name}`));
+    });
+  const afterCommit = (name: string) =>
+    Effect.flatMap(Transaction, (tx) => tx.onCommit(note(`after ${name}`)));
+  return { log, note, write, afterCommit };
+};
+
+const auditTags = Effect.flatMap(AuditLog, (audit) =>
+  Effect.map(audit.query(), (entries) =>
+    entries.map((entry) => entry.event._tag),
+  ),
+);
+
+describe("Transaction", () => {
+  test("a failure rolls back every write, last first", async () => {
+    const { log, write } = makeLog();
+    const [error, tags] = await run(
+      Effect.gen(function* () {
+        const error = yield* Effect.flip(
+          Effect.gen(function* () {
+            yield* write("a");
+            yield* write("b");
+            return yield* Effect.fail(new Boom());
+          }).pipe(Transaction.commit),
+        );
+        return [error, yield* auditTags] as const;
+      }),
+    );
+
+    expect(error).toBeInstanceOf(Boom);
+    expect(log).toEqual(["write a", "write b", "undo b", "undo a"]);
+    expect(tags).toEqual(["TransactionBegan", "TransactionRolledBack"]);
+  });
+
+  test("an interruption rolls back too", async () => {
+    const { log, write } = makeLog();
+    const tags = await run(
+      Effect.gen(function* () {
+        const written = yield* Deferred.make<void>();
+        const fiber = yield* Effect.fork(
+          Effect.gen(function* () {
+            yield* write("a");
+            yield* Deferred.succeed(written, undefined);
+            return yield* Effect.never;
+          }).pipe(Transaction.commit),
+        );
+        yield* Deferred.await(written);
+        yield* Fiber.interrupt(fiber);
+        return yield* auditTags;
+      }),
+    );
+
+    expect(log).toEqual(["write a", "undo a"]);
+    expect(tags).toEqual(["TransactionBegan", "TransactionRolledBack"]);
+  });
+
+  test("a failing savepoint only undoes its own writes, and the parent commits", async () => {
+    const { log, write } = makeLog();
+    const tags = await run(
+      Effect.gen(function* () {
+        yield* Effect.gen(function* () {
+          yield* write("a");
+          yield* write("b").pipe(
+            Effect.zipRight(Effect.fail(new Boom())),
+            Transaction.commit,
+            Effect.ignore,
+          );
+          yield* write("c");
+        }).pipe(Transaction.commit);
+        return yield* auditTags;
+      }),
+    );
+
+    expect(log).toEqual(["write a", "write b", "undo b", "write c"]);
+    expect(tags).toEqual([
+      "TransactionBegan",
+      "TransactionBegan",
+      "TransactionRolledBack",
+      "TransactionCommitted",
+    ]);
+  });
+
+  test("a failing parent undoes the writes of a savepoint it released", async () => {
+    const { log, write } = makeLog();
+    await run(
+      Effect.gen(function* () {
+        yield* write("a");
+        yield* write("b").pipe(Transaction.commit);
+        return yield* Effect.fail(new Boom());
+      }).pipe(Transaction.commit, Effect.ignore),
+    );
+
+    expect(log).toEqual(["write a", "write b", "undo b", "undo a"]);
+  });
+
+  test("commit actions run once the outermost transaction has committed", async () => {
+    const { log, note, afterCommit } = makeLog();
+    await run(
+      Effect.gen(function* () {
+        yield* afterCommit("outer");
+        yield* afterCommit("savepoint").pipe(Transaction.commit);
+        yield* note("savepoint released");
+      }).pipe(Transaction.commit),
+    );
+
+    expect(log).toEqual([
+      "savepoint released",
+      "after outer",
+      "after savepoint",
+    ]);
+  });
+
+  test("commit actions never run when the transaction rolls back", async () => {
+    const { log, afterCommit } = makeLog();
+    await run(
+      Effect.gen(function* () {
+        yield* afterCommit("outer");
+        yield* afterCommit("savepoint").pipe(Transaction.commit);
+        return yield* Effect.fail(new Boom());
+      }).pipe(Transaction.commit, Effect.ignore),
+    );
+    await run(
+      Effect.gen(function* () {
+        yield* afterCommit("failed savepoint").pipe(
+          Effect.zipRight(Effect.fail(new Boom())),
+          Transaction.commit,
+          Effect.ignore,
+        );
+      }).pipe(Transaction.commit),
+    );
+
+    expect(log).toEqual([]);
+  });
+});
@@ -0,0 +1,183 @@
+import { Context, Effect, Exit, Option, Ref } from "effect";
+import { AuditLog } from "./audit-log.ts";
+
+// =============================================================================
+// Transactions - being inside one is tracked in the types
+//
+// `Transaction.commit` wraps an effect, opens a transaction and provides the
+// `Transaction` service to it. Code that writes registers an undo action on
+// the transaction; if the wrapped effect fails or is interrupted, the undo
+// log is replayed in reverse (ROLLBACK). On success the commit log runs.
+//
+// A `commit` inside another transaction does not start a second one - it
+// becomes a SAVEPOINT. Failing inside it only rolls back the savepoint's
+// own writes; succeeding folds them into the outer transaction, so they are
+// still undone if the outer transaction later aborts.
+//
+// BEGIN, COMMIT and ROLLBACK (of savepoints too) go to the AuditLog, and
+// each commit runs in a "Transaction.commit" span (./telemetry.ts).
+// =============================================================================
+
+export type IsolationLevel =
+  "ReadUncommitted" | "ReadCommitted" | "RepeatableRead" | "Serializable";
+
+export interface TransactionOptions {
+  // Only honoured by the outermost commit - savepoints run at the
+  // isolation level of the transaction they belong to.
+  readonly isolation?: IsolationLevel;
+}
+
+// One undo/commit log per transaction or savepoint
+interface TransactionLog {
+  readonly undo: ReadonlyArray<Effect.Effect<void>>;
+  readonly afterCommit: ReadonlyArray<Effect.Effect<void>>;
+}
+
+const emptyLog: TransactionLog = { undo: [], afterCommit: [] };
+
+// Brands the Transaction service. Not exported, so providing a hand-made
+// Transaction fails to type-check; ./check-markers.ts finds the casts and
+// Effect.updateService calls that get past the compiler.
+const TransactionBrand: unique symbol = Symbol("@app/Transaction");
+
+// If your function requires Transaction, it means you're inside a transaction.
+// The service says which one, at what isolation level, and lets writers
+// register how to undo their work.
+export class Transaction extends Context.Tag("@app/Transaction")<
+  Transaction,
+  {
+    readonly [TransactionBrand]: true;
+    readonly id: number;
+    readonly isolation: IsolationLevel;
+    // Name of the savepoint when this is a nested commit
+    readonly savepoint: Option.Option<string>;
+    // Run `undo` if this transaction (or the savepoint) rolls back
+    readonly onRollback: (undo: Effect.Effect<void>) => Effect.Effect<void>;
+    // Run `action` once the outermost transaction has committed
+    readonly onCommit: (action: Effect.Effect<void>) => Effect.Effect<void>;
+  }
+>() {
+  // commit wraps an effect and provides the Transaction context
+  static commit<A, E, R>(effect: Effect.Effect<A, E, R>) {
+    return Transaction.commitWith({})(effect);
+  }
+
+  // commitWith is commit with options, e.g. `Transaction.commitWith({ isolation: "Serializable" })`
+  static commitWith(options: TransactionOptions) {
+    return <A, E, R>(effect: Effect.Effect<A, E, R>) =>
+      Effect.uninterruptibleMask((restore) =>
+        Effect.gen(function* () {
+          const audit = yield* AuditLog;
+          const parent = yield* Effect.serviceOption(Transaction);
+          const log = yield* Ref.make(emptyLog);
+          const tx = makeTransaction(parent, log, options);
+          const label = Option.match(tx.savepoint, {
+            onNone: () => `#${tx.id}`,
+            onSome: (name) => `#${tx.id} SAVEPOINT ${name}`,
+          });
+          const savepoint = Option.match(tx.savepoint, {
+            onNone: () => ({}),
+            onSome: (name) => ({ savepoint: name }),
+          });
+
+          yield* Effect.annotateCurrentSpan({
+            "transaction.id": tx.id,
+            "transaction.isolation": tx.isolation,
+            ...savepoint,
+          });
+          yield* Effect.log(
+            Option.isSome(tx.savepoint)
+              ? `[Transaction] ${label}`
+              : `[Transaction] BEGIN #${tx.id} (${tx.isolation})`,
+          );
+          yield* audit.record({
+            _tag: "TransactionBegan",
+            transactionId: tx.id,
+            isolation: tx.isolation,
+            ...savepoint,
+          });
+
+          const exit = yield* restore(
+            Effect.provideService(effect, Transaction, tx),
+          ).pipe(Effect.exit);
+          const { undo, afterCommit } = yield* Ref.get(log);
+
+          if (Exit.isFailure(exit)) {
+            // Undo in reverse order, then report the original failure
+            yield* Effect.forEach(undo.toReversed(), (u) => u, {
+              discard: true,
+            });
+            yield* Effect.annotateCurrentSpan(
+              "transaction.outcome",
+              "rollback",
+            );
+            yield* Effect.log(
+              Option.isSome(tx.savepoint)
+                ? `[Transaction] ROLLBACK TO ${label}`
+                : `[Transaction] ROLLBACK #${tx.id}`,
+            );
+            yield* audit.record({
+              _tag: "TransactionRolledBack",
+              transactionId: tx.id,
+              ...savepoint,
+            });
+            return yield* exit;
+          }
+
+          if (Option.isSome(parent)) {
+            // Savepoint released: its log now belongs to the outer transaction
+            yield* Effect.forEach(undo, parent.value.onRollback, {
+              discard: true,
+            });
+            yield* Effect.forEach(afterCommit, parent.value.onCommit, {
+              discard: true,
+            });
+            yield* Effect.annotateCurrentSpan("transaction.outcome", "release");
+            yield* Effect.log(`[Transaction] RELEASE ${label}`);
+            return yield* exit;
+          }
+
+          yield* Effect.annotateCurrentSpan("transaction.outcome", "commit");
+          yield* Effect.log(`[Transaction] COMMIT #${tx.id}`);
+          yield* audit.record({
+            _tag: "TransactionCommitted",
+            transactionId: tx.id,
+          });
+          yield* Effect.forEach(afterCommit, (a) => a, { discard: true });
+          return yield* exit;
+        }),
+      ).pipe(Effect.withSpan("Transaction.commit"));
+  }
+}
+
+// --- Implementation ---
+
+let nextTransactionId = 1;
+let nextSavepointId = 1;
+
+const makeTransaction = (
+  parent: Option.Option<Transaction["Type"]>,
+  log: Ref.Ref<TransactionLog>,
+  options: TransactionOptions,
+): Transaction["Type"] => {
+  const savepoint = Option.map(parent, () => `sp_${nextSavepointId++}`);
+  return Transaction.of({
+    [TransactionBrand]: true,
+    id: Option.match(parent, {
+      onNone: () => nextTransactionId++,
+      onSome: (p) => p.id,
+    }),
+    isolation: Option.match(parent, {
+      onNone: () => options.isolation ?? "ReadCommitted",
+      onSome: (p) => p.isolation,
+    }),
+    savepoint,
+    onRollback: (undo) =>
+      Ref.update(log, (l) => ({ ...l, undo: [...l.undo, undo] })),
+    onCommit: (action) =>
+      Ref.update(log, (l) => ({
+        ...l,
+        afterCommit: [...l.afterCommit, action],
+      })),
+  });
+};
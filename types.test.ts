@@ -0,0 +1,439 @@
+import { describe, expectTypeOf, test } from "bun:test";
+import { Effect, Layer, Option, type Scope } from "effect";
+import { AuditLog, InMemoryAuditLog } from "./audit-log.ts";
+import { AuthProvider, JwtAuthProvider } from "./auth-provider.ts";
+import { LoggedInUser } from "./auth.ts";
+import {
+  CosmosClient,
+  type DocumentDecodeError,
+  type DocumentEncodeError,
+  type PreconditionFailed,
+  type Redacted,
+  type Stored,
+} from "./cosmos.ts";
+import { Elevations, InMemoryElevations } from "./elevation.ts";
+import {
+  Counter,
+  Counters,
+  doSomethingComplex,
+  getUserOrFail,
+  orchestrate,
+  type User,
+  Users,
+} from "./index.ts";
+import { Locked, Mutex } from "./mutex.ts";
+import { InMemoryEventBroker, Outbox, OutboxLive } from "./outbox.ts";
+import { PolicySource } from "./policy-source.ts";
+import { type RateLimited, RateLimiter } from "./rate-limiter.ts";
+import {
+  asPlatformAdmin,
+  authenticate,
+  authorize,
+  authorizeAll,
+  authorizeOwn,
+  BuiltInPolicy,
+  CurrentUser,
+  createPost,
+  deletePost,
+  listPosts,
+  publishWorkflow,
+  type PermissionKey,
+  type Requires,
+  type RequiresFor,
+  type RequiresOwn,
+  requires,
+  Tenant,
+} from "./rbac.ts";
+import { Transaction } from "./transaction.ts";
+
+// =============================================================================
+// Type tests - which programs compile and which don't
+//
+// Nothing here needs to run: `tsc --noEmit` (bun run typecheck) is the real
+// check. Every `@ts-expect-error` below is a program that must NOT compile;
+// if it ever does, the unused directive fails the type-check.
+//
+// The effect language service reports the same missing requirements on top of
+// tsc, which `@ts-expect-error` can't silence, so it is turned off here.
+// =============================================================================
+
+// @effect-diagnostics missingEffectContext:off floatingEffect:off
+
+type Context<T> = T extends Effect.Effect<any, any, infer R> ? R : never;
+
+// Only a program with every requirement resolved can be passed here
+const runnable = <A, E>(effect: Effect.Effect<A, E, never>) => effect;
+
+const authProvider = JwtAuthProvider({
+  secret: "secret",
+  issuer: "issuer",
+  audience: "audience",
+});
+const atEdge = <A, E, R>(effect: Effect.Effect<A, E, R>) =>
+  effect.pipe(
+    authenticate,
+    Effect.provide(
+      Layer.mergeAll(
+        authProvider,
+        InMemoryAuditLog,
+        BuiltInPolicy,
+        InMemoryElevations,
+        OutboxLive().pipe(Layer.provide(InMemoryEventBroker())),
+      ),
+    ),
+  );
+
+describe("rbac.ts", () => {
+  test("requires adds Requires<A, R> to the requirements", () => {
+    expectTypeOf<Context<ReturnType<typeof listPosts>>>().toEqualTypeOf<
+      Requires<"read", "posts">
+    >();
+    expectTypeOf<Context<ReturnType<typeof publishWorkflow>>>().toEqualTypeOf<
+      | Requires<"read", "posts">
+      | Requires<"write", "posts">
+      | Outbox
+      | Transaction
+    >();
+    expectTypeOf<Context<ReturnType<typeof deletePost>>>().toEqualTypeOf<
+      Requires<"read", "posts"> | RequiresOwn<"delete", "posts">
+    >();
+  });
+
+  test("authorize removes exactly Requires<A, R> and adds CurrentUser", () => {
+    const program = createPost("title").pipe(
+      requires("read", "posts"),
+      authorize("write", "posts"),
+    );
+    expectTypeOf<Context<typeof program>>().toEqualTypeOf<
+      | Requires<"read", "posts">
+      | CurrentUser
+      | AuditLog
+      | PolicySource
+      | Elevations
+    >();
+
+    const both = program.pipe(authorize("read", "posts"));
+    expectTypeOf<Context<typeof both>>().toEqualTypeOf<
+      CurrentUser | AuditLog | PolicySource | Elevations
+    >();
+  });
+
+  test("authorize for an unrelated permission removes nothing", () => {
+    const program = createPost("title").pipe(authorize("write", "users"));
+    expectTypeOf<Context<typeof program>>().toEqualTypeOf<
+      | Requires<"write", "posts">
+      | CurrentUser
+      | AuditLog
+      | PolicySource
+      | Elevations
+    >();
+  });
+
+  test("authorizeAll removes every listed Requires", () => {
+    const program = publishWorkflow("title").pipe(
+      Transaction.commit,
+      authorizeAll("read:posts", "write:posts"),
+    );
+    expectTypeOf<Context<typeof program>>().toEqualTypeOf<
+      CurrentUser | AuditLog | PolicySource | Elevations | Outbox
+    >();
+
+    const partial = publishWorkflow("title").pipe(
+      Transaction.commit,
+      authorizeAll("read:posts"),
+    );
+    expectTypeOf<Context<typeof partial>>().toEqualTypeOf<
+      | Requires<"write", "posts">
+      | Outbox
+      | CurrentUser
+      | AuditLog
+      | PolicySource
+      | Elevations
+    >();
+  });
+
+  test("PermissionKey reads keys off the Requires template literal", () => {
+    expectTypeOf<
+      PermissionKey<
+        Requires<"read", "posts"> | Requires<"write", "users"> | CurrentUser
+      >
+    >().toEqualTypeOf<"read:posts" | "write:users">();
+  });
+
+  test("RequiresFor splits a key at its first colon, like the runtime", () => {
+    expectTypeOf<RequiresFor<"read:posts:drafts">>().toEqualTypeOf<
+      Requires<"read", "posts:drafts">
+    >();
+  });
+
+  test("authenticate resolves CurrentUser and needs an AuthProvider", () => {
+    const program = createPost("title").pipe(
+      authorize("write", "posts"),
+      authenticate,
+    );
+    expectTypeOf<Context<typeof program>>().toEqualTypeOf<
+      AuthProvider | AuditLog | PolicySource | Elevations
+    >();
+  });
+
+  test("fully authorized programs compile", () => {
+    runnable(
+      atEdge(
+        publishWorkflow("title").pipe(
+          Transaction.commit,
+          authorizeAll("read:posts", "write:posts"),
+        ),
+      ),
+    );
+    runnable(
+      atEdge(
+        deletePost(1).pipe(
+          authorizeOwn("delete", "posts"),
+          authorize("read", "posts"),
+        ),
+      ),
+    );
+  });
+
+  test("would NOT compile: missing permissions", () => {
+    // createPost without authorize - Requires<"write", "posts"> is not provided
+    // @ts-expect-error
+    runnable(atEdge(createPost("Nope")));
+
+    // Authorizing read does not cover write
+    // @ts-expect-error
+    runnable(atEdge(createPost("Nope").pipe(authorize("read", "posts"))));
+
+    // authorizeAll missing one of the two permissions
+    const onlyRead = publishWorkflow("Nope").pipe(
+      Transaction.commit,
+      authorizeAll("read:posts"),
+    );
+    // @ts-expect-error
+    runnable(atEdge(onlyRead));
+
+    // deletePost needs the ownership-aware authorizer, not plain authorize
+    const deleteWithoutOwnership = deletePost(1).pipe(
+      authorize("delete", "posts"),
+      authorize("read", "posts"),
+    );
+    // @ts-expect-error
+    runnable(atEdge(deleteWithoutOwnership));
+
+    // authorize without authenticate - CurrentUser is not provided
+    // @ts-expect-error
+    runnable(createPost("Nope").pipe(authorize("write", "posts")));
+  });
+});
+
+describe("index.ts", () => {
+  type UserPermissions = Requires<"read", "users"> | Requires<"write", "users">;
+
+  test("requirements bubble up through every caller", () => {
+    expectTypeOf<
+      Context<ReturnType<typeof doSomethingComplex>>
+    >().toEqualTypeOf<
+      | RateLimiter
+      | CosmosClient
+      | Transaction
+      | LoggedInUser
+      | Tenant
+      | UserPermissions
+      | Outbox
+    >();
+    expectTypeOf<Context<ReturnType<typeof getUserOrFail>>>().toEqualTypeOf<
+      | RateLimiter
+      | CosmosClient
+      | Transaction
+      | LoggedInUser
+      | Tenant
+      | Requires<"read", "users">
+    >();
+    expectTypeOf<Context<ReturnType<typeof orchestrate>>>().toEqualTypeOf<
+      | RateLimiter
+      | CosmosClient
+      | Transaction
+      | LoggedInUser
+      | Tenant
+      | UserPermissions
+      | Outbox
+      | Requires<"write", "counters">
+      | Mutex
+      | Locked
+      | Scope.Scope
+    >();
+  });
+
+  test("one authenticate -> authorize chain removes every marker", () => {
+    const program = orchestrate("user-456").pipe(
+      Mutex.release,
+      Transaction.commit,
+      authorizeAll("read:users", "write:users", "write:counters"),
+      authenticate,
+    );
+    expectTypeOf<Context<typeof program>>().toEqualTypeOf<
+      | RateLimiter
+      | CosmosClient
+      | Mutex
+      | AuthProvider
+      | AuditLog
+      | PolicySource
+      | Elevations
+      | Outbox
+    >();
+  });
+
+  test("typed containers decode reads and carry their name into the requirements", () => {
+    const read = Users.get("user-1");
+    expectTypeOf(read).toEqualTypeOf<
+      Effect.Effect<
+        Stored<Redacted<typeof User.Type, "email" | "accessedAt">> | undefined,
+        DocumentDecodeError,
+        | CosmosClient
+        | Transaction
+        | LoggedInUser
+        | Tenant
+        | Requires<"read", "users">
+      >
+    >();
+    const write = Counters.upsert({ id: "counter", value: 1 });
+    expectTypeOf<Context<typeof write>>().toEqualTypeOf<
+      | CosmosClient
+      | Transaction
+      | LoggedInUser
+      | Tenant
+      | Requires<"write", "counters">
+    >();
+    expectTypeOf<Effect.Effect.Error<typeof write>>().toEqualTypeOf<
+      DocumentEncodeError | PreconditionFailed
+    >();
+  });
+
+  test("would NOT compile: writing a document that doesn't match the schema", () => {
+    // @ts-expect-error - value must be a number
+    Counters.upsert({ id: "counter", value: "1" });
+    // @ts-expect-error - name is required
+    Users.create({ id: "user-1" });
+    // @ts-expect-error - a new user needs their email
+    Users.create({ id: "user-1", name: "Alice" });
+  });
+
+  test("restricted fields are optional in what reads return, other fields aren't", () => {
+    type Read = NonNullable<
+      Effect.Effect.Success<ReturnType<typeof Users.get>>
+    >;
+    expectTypeOf<Read["name"]>().toEqualTypeOf<string>();
+    expectTypeOf<Read["email"]>().toEqualTypeOf<string | undefined>();
+    // Writing back what was read keeps the fields left out of it
+    expectTypeOf<Read>().toMatchTypeOf<Parameters<typeof Users.upsert>[0]>();
+
+    const counter = Counters.get("counter");
+    expectTypeOf<Effect.Effect.Success<typeof counter>>().toEqualTypeOf<
+      Stored<typeof Counter.Type> | undefined
+    >();
+  });
+
+  test("asPlatformAdmin swaps Tenant for CurrentUser", () => {
+    const program = getUserOrFail("user-1").pipe(
+      asPlatformAdmin("globex", "SUP-1"),
+    );
+    expectTypeOf<Context<typeof program>>().toEqualTypeOf<
+      | RateLimiter
+      | CosmosClient
+      | Transaction
+      | LoggedInUser
+      | Requires<"read", "users">
+      | CurrentUser
+      | AuditLog
+      | PolicySource
+    >();
+  });
+
+  test("would NOT compile: missing markers", () => {
+    type Infrastructure =
+      | RateLimiter
+      | CosmosClient
+      | Mutex
+      | AuthProvider
+      | AuditLog
+      | PolicySource
+      | Elevations
+      | Outbox;
+    const provided = <A, E>(effect: Effect.Effect<A, E, Infrastructure>) =>
+      effect;
+
+    // doSomethingComplex with no wrappers - LoggedInUser | Transaction | permissions missing
+    // @ts-expect-error
+    provided(doSomethingComplex("user-789"));
+
+    // Without the transaction
+    const noTransaction = doSomethingComplex("user-789").pipe(
+      authorizeAll("read:users", "write:users"),
+      authenticate,
+    );
+    // @ts-expect-error
+    provided(noTransaction);
+
+    // Read permission only - getAndUpdateUser also writes
+    const readOnly = doSomethingComplex("user-789").pipe(
+      Transaction.commit,
+      authorize("read", "users"),
+      authenticate,
+    );
+    // @ts-expect-error
+    provided(readOnly);
+
+    // Permissions are per container: counters is not users
+    const wrongContainer = doSomethingComplex("user-789").pipe(
+      Transaction.commit,
+      authorizeAll("read:counters", "write:counters"),
+      authenticate,
+    );
+    // @ts-expect-error
+    provided(wrongContainer);
+
+    // Holding a lock without releasing it
+    const lockNotReleased = orchestrate("user-456").pipe(
+      Transaction.commit,
+      authorizeAll("read:users", "write:users", "write:counters"),
+      authenticate,
+    );
+    // @ts-expect-error
+    provided(lockNotReleased);
+  });
+});
+
+describe("rate-limiter.ts", () => {
+  type Failure<T> = T extends Effect.Effect<any, infer E, any> ? E : never;
+
+  test("only acquiring fails with RateLimited, throttling waits instead", () => {
+    const acquire = Effect.flatMap(RateLimiter, (limiter) => limiter.acquire);
+    const throttle = Effect.flatMap(RateLimiter, (limiter) => limiter.throttle);
+    expectTypeOf<Failure<typeof acquire>>().toEqualTypeOf<RateLimited>();
+    expectTypeOf<Failure<typeof throttle>>().toEqualTypeOf<never>();
+  });
+});
+
+// Only hand-made markers: casts and copies of real ones compile, and are
+// caught by ./check-markers.ts and, for Tenant and permissions, ForgedGrant
+// (see the forged markers in ./rbac.test.ts)
+describe("markers can't be provided by hand", () => {
+  test("would NOT compile: providing a marker by hand", () => {
+    const forged = {
+      id: 1,
+      isolation: "ReadCommitted",
+      savepoint: Option.none(),
+      onRollback: () => Effect.void,
+      onCommit: () => Effect.void,
+    } as const;
+    // @ts-expect-error
+    Layer.succeed(Transaction, forged);
+
+    // @ts-expect-error
+    Effect.provideService(Transaction, forged);
+
+    // Another tenant's data only through asPlatformAdmin
+    // @ts-expect-error
+    Effect.provideService(Tenant, { id: "globex" });
+  });
+});